@@ -2,23 +2,130 @@ import {assert, assertEquals, assertExists} from '@std/assert';
 
 import type {DbFunctions} from './app.ts';
 import {createApp} from './app.ts';
+import type {HistoryOptions} from './db.ts';
 
 // Mock database functions
 const mockDb: DbFunctions = {
-  getCommandsPerDay: () =>
-    Promise.resolve([
-      {date: '2024-01-01', count: 42},
-      {date: '2024-01-02', count: 35},
-    ]),
+  getCommandsPerDay: ({startDate, endDate}) =>
+    Promise.resolve(
+      [
+        {date: '2024-01-01', count: 42},
+        {date: '2024-01-02', count: 35},
+      ].filter(
+        d => (!startDate || d.date >= startDate) && (!endDate || d.date <= endDate)
+      )
+    ),
   getTimeOfDayStats: () =>
     Promise.resolve({
       hourly: Array(24).fill(5),
     }),
+  getPunchcardStats: () =>
+    Promise.resolve({
+      days: Array.from({length: 7}, (_, day) =>
+        Array.from({length: 24}, (_, hour) => (day === 1 && hour === 9 ? 4 : 0))
+      ),
+    }),
+  getSessionStats: ({limit}) =>
+    Promise.resolve({
+      total: 2,
+      daily: [
+        {date: '2024-01-01', count: 1},
+        {date: '2024-01-02', count: 1},
+      ],
+      medianDuration: 5400,
+      medianCommands: 30,
+      averageCommands: 30,
+      longest: [
+        {
+          session: 'abc',
+          startedAt: '2024-01-01T09:00:00+00:00',
+          endedAt: '2024-01-01T12:00:00+00:00',
+          duration: 10800,
+          commands: 42,
+        },
+      ].slice(0, limit),
+    }),
   getStats: () =>
     Promise.resolve({
       total: 296378,
       lastCommandAt: '2026-01-30T08:00:00.000Z',
     }),
+  getTopCommands: ({limit}) =>
+    Promise.resolve({
+      programs: [
+        {command: 'git', count: 120},
+        {command: 'deno', count: 80},
+      ].slice(0, limit),
+      commands: [
+        {command: 'git status', count: 60},
+        {command: 'deno task test', count: 40},
+      ].slice(0, limit),
+    }),
+  getSubcommands: ({program, limit}) =>
+    Promise.resolve({
+      program,
+      subcommands: [
+        {subcommand: 'status', count: 60},
+        {subcommand: 'commit', count: 25},
+      ].slice(0, limit),
+      daily: [
+        {date: '2024-01-01', count: 50},
+        {date: '2024-01-02', count: 35},
+      ],
+    }),
+  getFailureStats: ({limit}) =>
+    Promise.resolve({
+      total: 77,
+      failed: 7,
+      failureRate: 0.0909,
+      daily: [
+        {date: '2024-01-01', count: 42, failed: 4},
+        {date: '2024-01-02', count: 35, failed: 3},
+      ],
+      commands: [
+        {command: 'deno task test', count: 10, failed: 5, failureRate: 0.5},
+        {command: 'git push', count: 20, failed: 2, failureRate: 0.1},
+      ].slice(0, limit),
+    }),
+  getDurationStats: ({limit}) =>
+    Promise.resolve({
+      daily: [
+        {date: '2024-01-01', count: 42, p50: 120, p90: 2400, p99: 61000, total: 98000},
+        {date: '2024-01-02', count: 35, p50: 90, p90: 1800, p99: 45000, total: 72000},
+      ],
+      commands: [{command: 'cargo build', count: 4, average: 95000, total: 380000}].slice(
+        0,
+        limit
+      ),
+      programs: [{command: 'cargo', count: 9, average: 60000, total: 540000}].slice(
+        0,
+        limit
+      ),
+    }),
+  getHosts: ({hosts}) =>
+    Promise.resolve(
+      [
+        {
+          host: 'laptop',
+          total: 1200,
+          firstSeenAt: '2024-01-01T09:00:00+00:00',
+          lastSeenAt: '2026-01-30T08:00:00+00:00',
+        },
+        {
+          host: 'ci-runner',
+          total: 300,
+          firstSeenAt: '2025-06-01T12:00:00+00:00',
+          lastSeenAt: '2026-01-29T18:00:00+00:00',
+        },
+      ].filter(h => !hosts || hosts.includes(h.host))
+    ),
+  getDirectories: ({limit, depth}) =>
+    Promise.resolve(
+      [
+        {directory: depth ? '/home/user' : '/home/user/project', count: 420},
+        {directory: '/tmp', count: 12},
+      ].slice(0, limit)
+    ),
 };
 
 const app = createApp(mockDb, 300);
@@ -295,3 +402,746 @@ Deno.test('Root endpoint with period parameter', async () => {
   assertExists(data.total);
   assert(typeof data.total === 'number');
 });
+
+Deno.test('Top commands endpoint returns programs and commands', async () => {
+  const req = new Request('http://localhost/commands/top?period=30d');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assert(Array.isArray(data.programs));
+  assert(Array.isArray(data.commands));
+  assertEquals(data.programs[0], {command: 'git', count: 120});
+  assertEquals(data.commands[0], {command: 'git status', count: 60});
+});
+
+Deno.test('Top commands endpoint respects limit parameter', async () => {
+  const req = new Request('http://localhost/commands/top?limit=1');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assertEquals(data.programs.length, 1);
+  assertEquals(data.commands.length, 1);
+});
+
+Deno.test('Top commands endpoint with invalid limit', async () => {
+  const req = new Request('http://localhost/commands/top?limit=abc');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 400);
+
+  const data = await res.json();
+  assertExists(data.error);
+  assert(data.error.includes('Invalid limit'));
+});
+
+Deno.test('Subcommands endpoint returns subcommands and daily series', async () => {
+  const req = new Request('http://localhost/commands/git/subcommands?period=30d');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assertEquals(data.program, 'git');
+  assertEquals(data.subcommands[0], {subcommand: 'status', count: 60});
+  assert(Array.isArray(data.daily));
+  assert(/^\d{4}-\d{2}-\d{2}$/.test(data.daily[0].date));
+});
+
+Deno.test('Subcommands endpoint with invalid period parameter', async () => {
+  const req = new Request('http://localhost/commands/git/subcommands?period=invalid');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 400);
+
+  const data = await res.json();
+  assert(data.error.includes('Invalid period format'));
+});
+
+Deno.test('Failures endpoint returns failure rates', async () => {
+  const req = new Request('http://localhost/failures?period=30d');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assertEquals(data.failed, 7);
+  assert(typeof data.failureRate === 'number');
+  assertExists(data.daily[0].failed);
+  assertEquals(data.commands[0].command, 'deno task test');
+});
+
+Deno.test('History endpoint with failedOnly parameter', async () => {
+  const req = new Request('http://localhost/history?failedOnly=true');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assert(Array.isArray(data));
+});
+
+Deno.test('History endpoint with both successOnly and failedOnly', async () => {
+  const req = new Request('http://localhost/history?successOnly=true&failedOnly=true');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 400);
+
+  const data = await res.json();
+  assert(data.error.includes('Only one of successOnly or failedOnly'));
+});
+
+Deno.test('Duration endpoint returns percentiles and slowest commands', async () => {
+  const req = new Request('http://localhost/duration?period=30d');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assertEquals(data.daily.length, 2);
+  assertExists(data.daily[0].p50);
+  assertExists(data.daily[0].p90);
+  assertExists(data.daily[0].p99);
+  assertExists(data.daily[0].total);
+  assertEquals(data.commands[0].command, 'cargo build');
+  assertEquals(data.programs[0].command, 'cargo');
+});
+
+Deno.test('History endpoint with duration metric', async () => {
+  const req = new Request('http://localhost/history?metric=duration');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assert(Array.isArray(data));
+});
+
+Deno.test('History endpoint with invalid metric', async () => {
+  const req = new Request('http://localhost/history?metric=bogus');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 400);
+
+  const data = await res.json();
+  assert(data.error.includes('Invalid metric'));
+});
+
+Deno.test('Hosts endpoint lists hosts', async () => {
+  const req = new Request('http://localhost/hosts');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assertEquals(data.length, 2);
+  assertEquals(data[0].host, 'laptop');
+  assertExists(data[0].total);
+  assertExists(data[0].firstSeenAt);
+  assertExists(data[0].lastSeenAt);
+});
+
+Deno.test('Host parameter accepts repeated and comma separated values', async () => {
+  const repeated = await app.fetch(
+    new Request('http://localhost/hosts?host=laptop&host=ci-runner')
+  );
+  assertEquals((await repeated.json()).length, 2);
+
+  const commaSeparated = await app.fetch(
+    new Request('http://localhost/hosts?host=ci-runner,other')
+  );
+  const data = await commaSeparated.json();
+  assertEquals(data.length, 1);
+  assertEquals(data[0].host, 'ci-runner');
+});
+
+Deno.test('User parameter is accepted', async () => {
+  const req = new Request('http://localhost/?user=testuser');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+});
+
+Deno.test('App restricted to a user rejects other users', async () => {
+  const restrictedApp = createApp(mockDb, 300, 'testuser');
+
+  const sameUser = await restrictedApp.fetch(
+    new Request('http://localhost/?user=testuser')
+  );
+  assertEquals(sameUser.status, 200);
+  await sameUser.json();
+
+  const otherUser = await restrictedApp.fetch(
+    new Request('http://localhost/?user=otheruser')
+  );
+  assertEquals(otherUser.status, 403);
+
+  const data = await otherUser.json();
+  assert(data.error.includes('restricted to a single user'));
+});
+
+Deno.test('Directories endpoint returns directory counts', async () => {
+  const req = new Request('http://localhost/directories?gitRoot=true');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assertEquals(data[0], {directory: '/home/user/project', count: 420});
+});
+
+Deno.test('Directories endpoint respects depth parameter', async () => {
+  const req = new Request('http://localhost/directories?depth=2&limit=1');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assertEquals(data, [{directory: '/home/user', count: 420}]);
+});
+
+Deno.test('Directories endpoint with invalid depth', async () => {
+  const req = new Request('http://localhost/directories?depth=-1');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 400);
+
+  const data = await res.json();
+  assert(data.error.includes('Invalid depth'));
+});
+
+Deno.test('Graph endpoint with cwd parameter', async () => {
+  const req = new Request('http://localhost/graph.svg?cwd=/home/user/project');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+  assertEquals(res.headers.get('content-type'), 'image/svg+xml');
+  await res.text();
+});
+
+Deno.test('Sessions endpoint returns session stats', async () => {
+  const req = new Request('http://localhost/sessions?period=30d');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assertEquals(data.total, 2);
+  assertEquals(data.daily.length, 2);
+  assertEquals(data.medianDuration, 5400);
+  assertEquals(data.longest[0].session, 'abc');
+});
+
+Deno.test('Streaks endpoint returns streak stats', async () => {
+  const req = new Request('http://localhost/streaks?start=2024-01-01&end=2024-01-03');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assertEquals(data.currentStreak, 2);
+  assertEquals(data.longestStreak, {
+    days: 2,
+    startDate: '2024-01-01',
+    endDate: '2024-01-02',
+  });
+  assertEquals(data.totalDays, 3);
+  assertEquals(data.busiestDay, {date: '2024-01-01', count: 42});
+});
+
+Deno.test('Graph endpoint with showStreaks parameter', async () => {
+  const req = new Request(
+    'http://localhost/graph.svg?start=2024-01-01&end=2024-01-02&showStreaks=true'
+  );
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+  assert((await res.text()).includes('2 day streak (longest 2)'));
+});
+
+Deno.test('Punchcard endpoint returns a 7x24 matrix', async () => {
+  const req = new Request('http://localhost/punchcard?period=30d');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assertEquals(data.days.length, 7);
+  assert(data.days.every((hours: number[]) => hours.length === 24));
+  assertEquals(data.days[1][9], 4);
+});
+
+Deno.test('Punchcard SVG endpoint accepts color and label parameters', async () => {
+  const req = new Request(
+    'http://localhost/punchcard.svg?color=%23ff0000&cellBackground=%23000000&showDayLabels=false'
+  );
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+  assertEquals(res.headers.get('content-type'), 'image/svg+xml');
+
+  const svg = await res.text();
+  assert(svg.includes('fill="#000000"'));
+  assert(!svg.includes('>Mon<'));
+  assert(svg.includes('>9a<'));
+});
+
+Deno.test('Time of day SVG endpoint renders a chart', async () => {
+  const bar = await app.fetch(new Request('http://localhost/time-of-day.svg'));
+  assertEquals(bar.status, 200);
+  assertEquals(bar.headers.get('content-type'), 'image/svg+xml');
+  assert((await bar.text()).includes('peak 12a-1a'));
+
+  const radial = await app.fetch(
+    new Request('http://localhost/time-of-day.svg?style=radial&textColor=%23ffffff')
+  );
+  assertEquals(radial.status, 200);
+  assert((await radial.text()).includes('fill="#ffffff"'));
+});
+
+Deno.test('Time of day SVG endpoint with invalid style', async () => {
+  const req = new Request('http://localhost/time-of-day.svg?style=pie');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 400);
+  const data = await res.json();
+  assert(data.error.includes('Invalid style'));
+});
+
+Deno.test('History endpoint with granularity and weekStart parameters', async () => {
+  const req = new Request('http://localhost/history?granularity=week&weekStart=Monday');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+  await res.json();
+});
+
+Deno.test('History endpoint with invalid granularity', async () => {
+  const req = new Request('http://localhost/history?granularity=fortnight');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 400);
+  const data = await res.json();
+  assert(data.error.includes('Invalid granularity'));
+});
+
+Deno.test('History endpoint with invalid weekStart', async () => {
+  const req = new Request('http://localhost/history?granularity=week&weekStart=someday');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 400);
+  const data = await res.json();
+  assert(data.error.includes('Invalid weekStart'));
+});
+
+Deno.test('History endpoint with invalid fill', async () => {
+  const req = new Request('http://localhost/history?fill=previous');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 400);
+  const data = await res.json();
+  assert(data.error.includes('Invalid fill'));
+});
+
+Deno.test('Compare endpoint compares against the preceding window', async () => {
+  const req = new Request('http://localhost/compare?start=2024-01-02&end=2024-01-02');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assertEquals(data.current.startDate, '2024-01-02');
+  assertEquals(data.current.total, 35);
+  assertEquals(data.current.topHour, 0);
+  assertEquals(data.previous.startDate, '2024-01-01');
+  assertEquals(data.previous.endDate, '2024-01-01');
+  assertEquals(data.previous.total, 42);
+  assertEquals(data.deltas.total, {absolute: -7, percent: -16.67});
+});
+
+Deno.test('Compare endpoint accepts a comparison window', async () => {
+  const req = new Request(
+    'http://localhost/compare?start=2024-01-01&end=2024-01-02&compareStart=2023-01-01&compareEnd=2023-01-02'
+  );
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assertEquals(data.previous.total, 0);
+  assertEquals(data.deltas.total, {absolute: 77, percent: null});
+});
+
+Deno.test('Compare endpoint requires a bounded window', async () => {
+  const unbounded = await app.fetch(new Request('http://localhost/compare'));
+  assertEquals(unbounded.status, 400);
+  await unbounded.body?.cancel();
+
+  const partial = await app.fetch(
+    new Request('http://localhost/compare?period=30d&compareStart=2024-01-01')
+  );
+  assertEquals(partial.status, 400);
+  const data = await partial.json();
+  assert(data.error.includes('compareStart and compareEnd'));
+});
+
+Deno.test('Wrapped endpoint summarizes a year', async () => {
+  const req = new Request('http://localhost/wrapped?year=2024');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assertEquals(data.year, 2024);
+  assertEquals(data.total, 77);
+  assertEquals(data.busiestDay, {date: '2024-01-01', count: 42});
+  assertEquals(data.longestStreak.days, 2);
+  assertEquals(data.favoriteHour, 0);
+  assertEquals(data.topCommands[0], {command: 'git status', count: 60});
+  assertEquals(data.topDirectories[0], {directory: '/home/user/project', count: 420});
+});
+
+Deno.test('Wrapped endpoint with invalid year', async () => {
+  const req = new Request('http://localhost/wrapped?year=24');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 400);
+  const data = await res.json();
+  assert(data.error.includes('Invalid year'));
+});
+
+Deno.test('Wrapped SVG endpoint renders a card', async () => {
+  const req = new Request('http://localhost/wrapped.svg?year=2024', {
+    headers: {Prefer: 'timezone=America/New_York'},
+  });
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+  assertEquals(res.headers.get('content-type'), 'image/svg+xml');
+  assert((await res.text()).includes('2024 wrapped'));
+});
+
+Deno.test('History endpoint with trend parameter', async () => {
+  const req = new Request('http://localhost/history?trend=true');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+
+  const data = await res.json();
+  assertEquals(data.data[1], {
+    date: '2024-01-02',
+    count: 35,
+    average7: 38.5,
+    average30: 38.5,
+    cumulative: 77,
+  });
+  assertEquals(data.trend, {slopePerWeek: -49});
+});
+
+Deno.test('History endpoint trend requires daily granularity', async () => {
+  const req = new Request('http://localhost/history?trend=true&granularity=week');
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 400);
+  const data = await res.json();
+  assert(data.error.includes('granularity of day'));
+});
+
+Deno.test('Sparkline endpoint renders a sized SVG', async () => {
+  const req = new Request(
+    'http://localhost/sparkline.svg?period=30d&width=200&height=40&strokeColor=%23ff0000&fillColor=%23ffcccc'
+  );
+  const res = await app.fetch(req);
+
+  assertEquals(res.status, 200);
+  assertEquals(res.headers.get('content-type'), 'image/svg+xml');
+
+  const svg = await res.text();
+  assert(svg.includes('width="200" height="40"'));
+  assert(svg.includes('stroke="#ff0000"'));
+  assert(svg.includes('fill="#ffcccc"'));
+});
+
+Deno.test('Sparkline endpoint with invalid parameters', async () => {
+  const size = await app.fetch(new Request('http://localhost/sparkline.svg?width=-5'));
+  assertEquals(size.status, 400);
+  assert((await size.json()).error.includes('Invalid width'));
+
+  const granularity = await app.fetch(
+    new Request('http://localhost/sparkline.svg?granularity=hour')
+  );
+  assertEquals(granularity.status, 400);
+  assert((await granularity.json()).error.includes('Invalid granularity'));
+});
+
+Deno.test('Badge endpoint renders the total by default', async () => {
+  const res = await app.fetch(new Request('http://localhost/badge.svg'));
+
+  assertEquals(res.status, 200);
+  assertEquals(res.headers.get('content-type'), 'image/svg+xml');
+  assertExists(res.headers.get('cache-control'));
+
+  const svg = await res.text();
+  assert(svg.includes('aria-label="commands: 296,378"'));
+});
+
+Deno.test('Badge endpoint renders the average per day', async () => {
+  const res = await app.fetch(
+    new Request(
+      'http://localhost/badge.svg?metric=avgPerDay&start=2024-01-01&end=2024-01-04'
+    )
+  );
+
+  assertEquals(res.status, 200);
+  assert((await res.text()).includes('aria-label="commands/day: 19.3"'));
+});
+
+Deno.test('Badge endpoint supports label and color overrides', async () => {
+  const res = await app.fetch(
+    new Request(
+      'http://localhost/badge.svg?metric=streak&label=shell%20streak&color=%234c1&labelColor=%23333'
+    )
+  );
+
+  assertEquals(res.status, 200);
+
+  const svg = await res.text();
+  assert(svg.includes('aria-label="shell streak: 0 days"'));
+  assert(svg.includes('fill="#4c1"'));
+  assert(svg.includes('fill="#333"'));
+});
+
+Deno.test('Badge endpoint with invalid metric', async () => {
+  const res = await app.fetch(new Request('http://localhost/badge.svg?metric=bogus'));
+
+  assertEquals(res.status, 400);
+  assert((await res.json()).error.includes('Invalid metric'));
+});
+
+Deno.test('Anomalies endpoint returns an array of outliers', async () => {
+  const res = await app.fetch(
+    new Request(
+      'http://localhost/anomalies?period=90d&method=mad&window=14&threshold=2.5'
+    )
+  );
+
+  assertEquals(res.status, 200);
+  assertExists(res.headers.get('cache-control'));
+  assertEquals(await res.json(), []);
+});
+
+Deno.test(
+  'Graph endpoint scores anomalies against the days before the period',
+  async () => {
+    const periods: HistoryOptions[] = [];
+    const spyApp = createApp(
+      {
+        ...mockDb,
+        getCommandsPerDay: period => {
+          periods.push(period);
+          return mockDb.getCommandsPerDay(period);
+        },
+      },
+      300
+    );
+
+    const res = await spyApp.fetch(
+      new Request(
+        'http://localhost/graph.svg?start=2024-03-01&end=2024-03-31&showAnomalies=1'
+      )
+    );
+
+    assertEquals(res.status, 200);
+    assert(
+      periods.some(
+        p =>
+          p.startDate === '2024-02-02' && p.endDate === '2024-03-31' && p.fill === 'zero'
+      )
+    );
+  }
+);
+
+Deno.test('Anomalies endpoint with invalid parameters', async () => {
+  const method = await app.fetch(new Request('http://localhost/anomalies?method=iqr'));
+  assertEquals(method.status, 400);
+  assert((await method.json()).error.includes('Invalid method'));
+
+  const window = await app.fetch(new Request('http://localhost/anomalies?window=3'));
+  assertEquals(window.status, 400);
+  assert((await window.json()).error.includes('Invalid window'));
+
+  const threshold = await app.fetch(
+    new Request('http://localhost/anomalies?threshold=-1')
+  );
+  assertEquals(threshold.status, 400);
+  assert((await threshold.json()).error.includes('Invalid threshold'));
+});
+
+Deno.test('Dashboard endpoint serves an HTML page', async () => {
+  const res = await app.fetch(new Request('http://localhost/dashboard'));
+
+  assertEquals(res.status, 200);
+  assert(res.headers.get('content-type')?.startsWith('text/html'));
+  assert((await res.text()).includes('<title>Atuin Abacus</title>'));
+});
+
+Deno.test('Cached responses vary on the Prefer header', async () => {
+  const res = await app.fetch(new Request('http://localhost/'));
+
+  assertEquals(res.headers.get('vary')?.toLowerCase(), 'prefer');
+});
+
+Deno.test('Graph endpoint with accessible parameter', async () => {
+  const withMarkup = await app.fetch(new Request('http://localhost/graph.svg'));
+  assert((await withMarkup.text()).includes('data-date="2024-01-01" data-count="42"'));
+
+  const withoutMarkup = await app.fetch(
+    new Request('http://localhost/graph.svg?accessible=0')
+  );
+  assert(!(await withoutMarkup.text()).includes('data-date'));
+});
+
+Deno.test('Graph endpoint with a named theme', async () => {
+  const res = await app.fetch(new Request('http://localhost/graph.svg?theme=dracula'));
+
+  assertEquals(res.status, 200);
+
+  const svg = await res.text();
+  assert(svg.includes('fill="#f8f8f2"'));
+  assert(svg.includes('fill="#44475a"'));
+  assert(!svg.includes('<style>'));
+});
+
+Deno.test('Graph endpoint colors override the theme', async () => {
+  const res = await app.fetch(
+    new Request('http://localhost/graph.svg?theme=dracula&textColor=%23ffffff')
+  );
+
+  const svg = await res.text();
+  assert(svg.includes('fill="#ffffff"'));
+  assert(!svg.includes('fill="#f8f8f2"'));
+});
+
+Deno.test('Graph endpoint with the auto theme', async () => {
+  const res = await app.fetch(new Request('http://localhost/graph.svg?theme=auto'));
+
+  assertEquals(res.status, 200);
+
+  const svg = await res.text();
+  assert(svg.includes('fill="#57606a" class="t"'));
+  assert(svg.includes('@media (prefers-color-scheme: dark)'));
+  assert(svg.includes('.t{fill:#c9d1d9}'));
+});
+
+Deno.test('Chart endpoints with the auto theme', async () => {
+  for (const path of ['punchcard.svg', 'time-of-day.svg', 'wrapped.svg?year=2024']) {
+    const separator = path.includes('?') ? '&' : '?';
+    const res = await app.fetch(
+      new Request(`http://localhost/${path}${separator}theme=auto`)
+    );
+
+    assertEquals(res.status, 200);
+
+    const svg = await res.text();
+    assert(svg.includes('@media (prefers-color-scheme: dark)'), path);
+    assert(svg.includes('class="t"'), path);
+  }
+});
+
+Deno.test('Graph endpoint with invalid theme', async () => {
+  const res = await app.fetch(new Request('http://localhost/graph.svg?theme=bogus'));
+
+  assertEquals(res.status, 400);
+  assert((await res.json()).error.includes('Invalid theme'));
+});
+
+Deno.test('Graph endpoint with layout parameter', async () => {
+  const stacked = await app.fetch(
+    new Request('http://localhost/graph.svg?layout=stacked')
+  );
+  assertEquals(stacked.status, 200);
+  assert((await stacked.text()).includes('>2024</text>'));
+
+  const vertical = await app.fetch(
+    new Request('http://localhost/graph.svg?layout=vertical')
+  );
+  assertEquals(vertical.status, 200);
+  assert((await vertical.text()).includes('matrix(0 1 1 0 0 0)'));
+});
+
+Deno.test('Graph endpoint with invalid layout', async () => {
+  const res = await app.fetch(new Request('http://localhost/graph.svg?layout=diagonal'));
+
+  assertEquals(res.status, 400);
+  assert((await res.json()).error.includes('Invalid layout'));
+});
+
+Deno.test('Graph endpoint with weekStart and locale parameters', async () => {
+  const res = await app.fetch(
+    new Request('http://localhost/graph.svg?weekStart=monday&locale=fr-FR')
+  );
+
+  assertEquals(res.status, 200);
+
+  const svg = await res.text();
+  assert(svg.includes('>janv.</text>'));
+  assert(svg.includes('on lun. 1 janv. 2024</title>'));
+});
+
+Deno.test('Graph endpoint with invalid weekStart and locale', async () => {
+  const weekStart = await app.fetch(
+    new Request('http://localhost/graph.svg?weekStart=funday')
+  );
+  assertEquals(weekStart.status, 400);
+  assert((await weekStart.json()).error.includes('Invalid weekStart'));
+
+  const locale = await app.fetch(
+    new Request('http://localhost/graph.svg?locale=not_a_locale!')
+  );
+  assertEquals(locale.status, 400);
+  assert((await locale.json()).error.includes('Invalid locale'));
+});
+
+Deno.test('Badge endpoint rejects invalid colors', async () => {
+  const color = await app.fetch(
+    new Request(
+      `http://localhost/badge.svg?color=${encodeURIComponent('"/><script>alert(1)</script><x a="')}`
+    )
+  );
+  assertEquals(color.status, 400);
+  assert((await color.json()).error.includes('Invalid color'));
+
+  const labelColor = await app.fetch(
+    new Request('http://localhost/badge.svg?labelColor=notacolor')
+  );
+  assertEquals(labelColor.status, 400);
+  assert((await labelColor.json()).error.includes('Invalid labelColor'));
+});
+
+Deno.test('Sparkline endpoint rejects invalid colors', async () => {
+  for (const name of ['strokeColor', 'color', 'fillColor']) {
+    const res = await app.fetch(
+      new Request(
+        `http://localhost/sparkline.svg?${name}=${encodeURIComponent('"/><script>alert(1)</script>')}`
+      )
+    );
+    assertEquals(res.status, 400);
+    assert((await res.json()).error.includes(`Invalid ${name}`));
+  }
+});
+
+Deno.test('Graph endpoint rejects invalid colors', async () => {
+  const res = await app.fetch(new Request('http://localhost/graph.svg?color=notacolor'));
+
+  assertEquals(res.status, 400);
+  assert((await res.json()).error.includes('Invalid color'));
+
+  const cellBackground = await app.fetch(
+    new Request('http://localhost/punchcard.svg?cellBackground=%22%3E')
+  );
+  assertEquals(cellBackground.status, 400);
+  assert((await cellBackground.json()).error.includes('Invalid cellBackground'));
+});
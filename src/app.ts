@@ -3,9 +3,66 @@ import {cache} from 'hono/cache';
 import {cors} from 'hono/cors';
 import {HTTPException} from 'hono/http-exception';
 
-import type {DailyCommandCount, Period, Stats, TimeOfDayStats} from './db.ts';
-import {generateContributionGraph} from './svg.ts';
-import {parsePeriod} from './utils.ts';
+import {type BadgeMetric, generateBadge} from './badge.ts';
+import {generateDashboard} from './dashboard.ts';
+import type {
+  CommandStatus,
+  DailyCommandCount,
+  DirectoryCount,
+  DirectoryOptions,
+  DurationOptions,
+  DurationStats,
+  FailureOptions,
+  FailureStats,
+  HistoryFill,
+  HistoryGranularity,
+  HistoryMetric,
+  HistoryOptions,
+  HostStats,
+  Period,
+  PunchcardStats,
+  SessionOptions,
+  SessionStats,
+  Stats,
+  SubcommandOptions,
+  SubcommandStats,
+  TimeOfDayStats,
+  TopCommands,
+  TopCommandsOptions,
+} from './db.ts';
+import {generatePunchcard} from './punchcard.ts';
+import {generateSparkline} from './sparkline.ts';
+import {
+  type Anomaly,
+  type AnomalyMethod,
+  type AnomalyOptions,
+  calculateStreaks,
+  calculateTrend,
+  compareWindows,
+  detectAnomalies,
+  type StreakOptions,
+  summarizeWindow,
+} from './stats.ts';
+import {
+  generateContributionGraph,
+  type GraphLayout,
+  isValidColor,
+  type SvgStyleOptions,
+} from './svg.ts';
+import {AUTO_THEMES, isThemeName, type ThemeColors, THEMES} from './themes.ts';
+import {generateTimeOfDayChart, type TimeOfDayChartStyle} from './timeofday.ts';
+import {
+  DEFAULT_WEEK_START,
+  getPreviousPeriod,
+  parsePeriod,
+  type Weekday,
+  WEEKDAYS,
+} from './utils.ts';
+import {
+  buildWrappedSummary,
+  generateWrappedCard,
+  type WrappedSummary,
+} from './wrapped.ts';
 
 /**
  * Get the system's default timezone using Temporal API
@@ -36,6 +93,18 @@ function parseTimezoneFromPrefer(preferHeader: string): string | null {
   return match ? match[1] || match[2] : null;
 }
 
+/**
+ * Validate a locale string using Intl API
+ */
+function isValidLocale(locale: string): boolean {
+  try {
+    Intl.DateTimeFormat(locale);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 // Validate date format (YYYY-MM-DD)
 function isValidDate(dateStr: string): boolean {
   const regex = /^\d{4}-\d{2}-\d{2}$/;
@@ -64,25 +133,143 @@ function validateDateParams(start?: string, end?: string): string | null {
   return null;
 }
 
+const HISTORY_METRICS: HistoryMetric[] = ['count', 'duration'];
+
+const ANOMALY_METHODS: AnomalyMethod[] = ['zscore', 'mad'];
+
+const BADGE_METRICS: BadgeMetric[] = ['total', 'today', 'streak', 'avgPerDay'];
+
+const BADGE_LABELS: Record<BadgeMetric, string> = {
+  total: 'commands',
+  today: 'commands today',
+  streak: 'streak',
+  avgPerDay: 'commands/day',
+};
+
+const SPARKLINE_GRANULARITIES: HistoryGranularity[] = ['day', 'week'];
+
+const HISTORY_FILLS: HistoryFill[] = ['zero'];
+
+const HISTORY_GRANULARITIES: HistoryGranularity[] = [
+  'hour',
+  'day',
+  'week',
+  'month',
+  'year',
+];
+
+const GRAPH_LAYOUTS: GraphLayout[] = ['horizontal', 'stacked', 'vertical'];
+
+const TIME_OF_DAY_STYLES: TimeOfDayChartStyle[] = ['bar', 'radial'];
+
+// Parse boolean parameters (accept 'true', '1', 'false', '0')
+function parseBoolean(value: string | undefined): boolean | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value === 'true' || value === '1';
+}
+
+/**
+ * Get the range streaks are calculated over for a period. Streaks end today
+ * in the period's timezone, unless the period ends earlier.
+ */
+function getStreakRange(period: Period): StreakOptions {
+  const today = Temporal.Now.plainDateISO(period.timezone).toString();
+  const endDate = period.endDate && period.endDate < today ? period.endDate : today;
+
+  return {startDate: period.startDate, endDate};
+}
+
 export interface DbFunctions {
-  getCommandsPerDay: (opts: Period) => Promise<DailyCommandCount[]>;
+  getCommandsPerDay: (opts: HistoryOptions) => Promise<DailyCommandCount[]>;
   getTimeOfDayStats: (opts: Period) => Promise<TimeOfDayStats>;
+  getPunchcardStats: (opts: Period) => Promise<PunchcardStats>;
+  getSessionStats: (opts: SessionOptions) => Promise<SessionStats>;
   getStats: (opts: Period) => Promise<Stats>;
+  getTopCommands: (opts: TopCommandsOptions) => Promise<TopCommands>;
+  getSubcommands: (opts: SubcommandOptions) => Promise<SubcommandStats>;
+  getFailureStats: (opts: FailureOptions) => Promise<FailureStats>;
+  getDurationStats: (opts: DurationOptions) => Promise<DurationStats>;
+  getHosts: (opts: Period) => Promise<HostStats[]>;
+  getDirectories: (opts: DirectoryOptions) => Promise<DirectoryCount[]>;
 }
 
 interface Variables {
   timezone: string;
 }
 
-export function createApp(db: DbFunctions, cacheTtlSeconds = 300) {
+/**
+ * Create the API app. When a `user` is given every request is restricted to
+ * the commands of that user.
+ */
+export function createApp(db: DbFunctions, cacheTtlSeconds = 300, user?: string) {
   const app = new Hono<{Variables: Variables}>();
 
   const cacheMiddleware = cache({
     cacheName: 'atuin-abacus',
     cacheControl: `max-age=${cacheTtlSeconds}`,
+    // Responses depend on the timezone requested through the Prefer header
+    vary: ['Prefer'],
     wait: true,
   });
 
+  /**
+   * Helper to extract the exit status filter from the `successOnly` and
+   * `failedOnly` parameters
+   */
+  const getStatusFromContext = (
+    c: Context<{Variables: Variables}>
+  ): CommandStatus | undefined => {
+    const successOnly = parseBoolean(c.req.query('successOnly'));
+    const failedOnly = parseBoolean(c.req.query('failedOnly'));
+
+    if (successOnly && failedOnly) {
+      throw new HTTPException(400, {
+        message: 'Only one of successOnly or failedOnly may be provided',
+      });
+    }
+
+    if (successOnly) {
+      return 'success';
+    }
+    if (failedOnly) {
+      return 'failed';
+    }
+    return undefined;
+  };
+
+  /**
+   * Helper to extract the hosts to filter to from the `host` parameter. Hosts
+   * may be given as repeated parameters or as a comma separated list.
+   */
+  const getHostsFromContext = (
+    c: Context<{Variables: Variables}>
+  ): string[] | undefined => {
+    const hosts = (c.req.queries('host') ?? [])
+      .flatMap(host => host.split(','))
+      .map(host => host.trim())
+      .filter(host => host !== '');
+
+    return hosts.length > 0 ? hosts : undefined;
+  };
+
+  /**
+   * Helper to extract the user selector from the `user` parameter
+   * Throws HTTPException when the app is restricted to a different user
+   */
+  const getUserFromContext = (c: Context<{Variables: Variables}>): string | undefined => {
+    const requestedUser = c.req.query('user') || undefined;
+
+    if (user && requestedUser && requestedUser !== user) {
+      throw new HTTPException(403, {
+        message: `This instance is restricted to a single user, got: ${requestedUser}`,
+      });
+    }
+
+    return user ?? requestedUser;
+  };
+
   /**
    * Helper to extract Period parameters from context
    * Throws HTTPException if validation fails
@@ -92,6 +279,10 @@ export function createApp(db: DbFunctions, cacheTtlSeconds = 300) {
   const getPeriodFromContext = (c: Context<{Variables: Variables}>): Period => {
     const timezone = c.get('timezone');
     const periodParam = c.req.query('period');
+    const status = getStatusFromContext(c);
+    const hosts = getHostsFromContext(c);
+    const selectedUser = getUserFromContext(c);
+    const cwd = c.req.query('cwd') || undefined;
 
     // If period parameter is provided, parse it
     if (periodParam) {
@@ -101,7 +292,15 @@ export function createApp(db: DbFunctions, cacheTtlSeconds = 300) {
           message: `Invalid period format. Expected format: <number><unit> (e.g., "1y", "6m", "30d"), got: ${periodParam}`,
         });
       }
-      return {startDate: parsed.startDate, endDate: parsed.endDate, timezone};
+      return {
+        startDate: parsed.startDate,
+        endDate: parsed.endDate,
+        timezone,
+        status,
+        hosts,
+        user: selectedUser,
+        cwd,
+      };
     }
 
     // Otherwise use start/end date parameters
@@ -113,7 +312,213 @@ export function createApp(db: DbFunctions, cacheTtlSeconds = 300) {
       throw new HTTPException(400, {message: validationError});
     }
 
-    return {startDate, endDate, timezone};
+    return {startDate, endDate, timezone, status, hosts, user: selectedUser, cwd};
+  };
+
+  /**
+   * Helper to extract the `limit` parameter from context
+   * Throws HTTPException if the limit is not a positive integer
+   */
+  const getLimitFromContext = (
+    c: Context<{Variables: Variables}>,
+    defaultLimit = 10,
+    maxLimit = 100
+  ): number => {
+    const limitParam = c.req.query('limit');
+    if (!limitParam) {
+      return defaultLimit;
+    }
+
+    const limit = Number(limitParam);
+    if (!Number.isInteger(limit) || limit <= 0 || limit > maxLimit) {
+      throw new HTTPException(400, {
+        message: `Invalid limit. Expected an integer between 1 and ${maxLimit}, got: ${limitParam}`,
+      });
+    }
+
+    return limit;
+  };
+
+  /**
+   * Helper to extract a color from the first of the given parameters present
+   * Throws HTTPException if the color is not a valid CSS color
+   */
+  const getColorFromContext = (
+    c: Context<{Variables: Variables}>,
+    ...names: string[]
+  ): string | undefined => {
+    for (const name of names) {
+      const color = c.req.query(name);
+      if (!color) {
+        continue;
+      }
+
+      if (!isValidColor(color)) {
+        throw new HTTPException(400, {
+          message: `Invalid ${name}. Expected a CSS color, got: ${color}`,
+        });
+      }
+
+      return color;
+    }
+
+    return undefined;
+  };
+
+  /**
+   * Helper to extract the size, color and label parameters shared by the SVG
+   * endpoints
+   */
+  const getSvgOptionsFromContext = (
+    c: Context<{Variables: Variables}>
+  ): SvgStyleOptions => {
+    const theme = c.req.query('theme');
+
+    let themeColors: Partial<ThemeColors> = {};
+    let darkColors: ThemeColors | undefined;
+
+    if (theme === 'auto') {
+      // The light colors can still be overridden, and the dark colors are
+      // switched to when the viewer prefers a dark color scheme
+      themeColors = THEMES[AUTO_THEMES.light];
+      darkColors = THEMES[AUTO_THEMES.dark];
+    } else if (theme) {
+      if (!isThemeName(theme)) {
+        throw new HTTPException(400, {
+          message: `Invalid theme. Expected one of auto, ${Object.keys(THEMES).join(', ')}, got: ${theme}`,
+        });
+      }
+      themeColors = THEMES[theme];
+    }
+
+    // Parse color parameters, which override the theme
+    const baseColor =
+      getColorFromContext(c, 'color', 'baseColor') || themeColors.baseColor;
+    const textColor = getColorFromContext(c, 'textColor') || themeColors.textColor;
+    const cellBackground =
+      getColorFromContext(c, 'cellBackground') || themeColors.cellBackground;
+
+    // Parse numeric parameters
+    const cellSize = c.req.query('cellSize')
+      ? parseInt(c.req.query('cellSize')!, 10)
+      : undefined;
+    const cellGap = c.req.query('cellGap')
+      ? parseInt(c.req.query('cellGap')!, 10)
+      : undefined;
+
+    const showDayLabels = parseBoolean(c.req.query('showDayLabels'));
+
+    return {
+      baseColor,
+      textColor,
+      cellBackground,
+      cellSize,
+      cellGap,
+      showDayLabels,
+      darkColors,
+    };
+  };
+
+  /**
+   * Helper to detect anomalies in a period, fetching the days before it so
+   * that its first days have a baseline to be scored against
+   */
+  const getAnomalies = async (
+    period: Period,
+    options: AnomalyOptions = {}
+  ): Promise<Anomaly[]> => {
+    const {startDate} = period;
+    const baselineStart = startDate
+      ? Temporal.PlainDate.from(startDate)
+          .subtract({days: options.window ?? 28})
+          .toString()
+      : undefined;
+
+    const data = await db.getCommandsPerDay({
+      ...period,
+      startDate: baselineStart,
+      fill: 'zero',
+    });
+
+    return detectAnomalies(data, options).filter(a => !startDate || a.date >= startDate);
+  };
+
+  /**
+   * Helper to build the year in review summary for the `year` parameter,
+   * defaulting to the current year in the requested timezone
+   * Throws HTTPException if the year is invalid
+   */
+  const getWrappedSummary = async (
+    c: Context<{Variables: Variables}>
+  ): Promise<WrappedSummary> => {
+    const today = Temporal.Now.plainDateISO(c.get('timezone'));
+    const yearParam = c.req.query('year') || String(today.year);
+
+    if (!/^\d{4}$/.test(yearParam)) {
+      throw new HTTPException(400, {
+        message: `Invalid year. Expected format: YYYY, got: ${yearParam}`,
+      });
+    }
+
+    const year = Number(yearParam);
+    const period: Period = {
+      ...getPeriodFromContext(c),
+      startDate: `${year}-01-01`,
+      endDate: `${year}-12-31`,
+    };
+
+    const [daily, timeOfDay, topCommands, topDirectories] = await Promise.all([
+      db.getCommandsPerDay(period),
+      db.getTimeOfDayStats(period),
+      db.getTopCommands({...period, limit: 5}),
+      db.getDirectories({...period, limit: 5}),
+    ]);
+
+    return buildWrappedSummary(
+      year,
+      {daily, timeOfDay, topCommands: topCommands.commands, topDirectories},
+      today.toString()
+    );
+  };
+
+  /**
+   * Helper to extract the first day of the week from the `weekStart` parameter
+   * Throws HTTPException if it is not a day of the week
+   */
+  const getWeekStartFromContext = (c: Context<{Variables: Variables}>): Weekday => {
+    const weekStart = c.req.query('weekStart')?.toLowerCase() || DEFAULT_WEEK_START;
+
+    if (!WEEKDAYS.includes(weekStart as Weekday)) {
+      throw new HTTPException(400, {
+        message: `Invalid weekStart. Expected a day of the week, got: ${weekStart}`,
+      });
+    }
+
+    return weekStart as Weekday;
+  };
+
+  /**
+   * Helper to extract a size in pixels from the given parameter
+   * Throws HTTPException if the size is not a positive integer
+   */
+  const getSizeFromContext = (
+    c: Context<{Variables: Variables}>,
+    name: string,
+    maxSize = 2000
+  ): number | undefined => {
+    const sizeParam = c.req.query(name);
+    if (!sizeParam) {
+      return undefined;
+    }
+
+    const size = Number(sizeParam);
+    if (!Number.isInteger(size) || size <= 0 || size > maxSize) {
+      throw new HTTPException(400, {
+        message: `Invalid ${name}. Expected an integer between 1 and ${maxSize}, got: ${sizeParam}`,
+      });
+    }
+
+    return size;
   };
 
   // CORS middleware
@@ -150,8 +555,47 @@ export function createApp(db: DbFunctions, cacheTtlSeconds = 300) {
   // History
   app.get('/history', cacheMiddleware, async c => {
     const period = getPeriodFromContext(c);
-    const data = await db.getCommandsPerDay(period);
-    return c.json(data);
+    const metric = c.req.query('metric') || 'count';
+
+    if (!HISTORY_METRICS.includes(metric as HistoryMetric)) {
+      throw new HTTPException(400, {
+        message: `Invalid metric. Expected one of ${HISTORY_METRICS.join(', ')}, got: ${metric}`,
+      });
+    }
+
+    const granularity = c.req.query('granularity') || 'day';
+
+    if (!HISTORY_GRANULARITIES.includes(granularity as HistoryGranularity)) {
+      throw new HTTPException(400, {
+        message: `Invalid granularity. Expected one of ${HISTORY_GRANULARITIES.join(', ')}, got: ${granularity}`,
+      });
+    }
+
+    const weekStart = getWeekStartFromContext(c);
+    const fill = c.req.query('fill') || undefined;
+
+    if (fill && !HISTORY_FILLS.includes(fill as HistoryFill)) {
+      throw new HTTPException(400, {
+        message: `Invalid fill. Expected one of ${HISTORY_FILLS.join(', ')}, got: ${fill}`,
+      });
+    }
+
+    const trend = parseBoolean(c.req.query('trend'));
+
+    if (trend && granularity !== 'day') {
+      throw new HTTPException(400, {
+        message: 'Trends are only available with a granularity of day',
+      });
+    }
+
+    const data = await db.getCommandsPerDay({
+      ...period,
+      metric: metric as HistoryMetric,
+      granularity: granularity as HistoryGranularity,
+      weekStart,
+      fill: fill as HistoryFill | undefined,
+    });
+    return c.json(trend ? calculateTrend(data) : data);
   });
 
   // Time of day stats
@@ -161,49 +605,369 @@ export function createApp(db: DbFunctions, cacheTtlSeconds = 300) {
     return c.json(data);
   });
 
-  // SVG contribution graph
-  app.get('/graph.svg', cacheMiddleware, async c => {
+  // SVG time of day chart
+  app.get('/time-of-day.svg', cacheMiddleware, async c => {
     const period = getPeriodFromContext(c);
-    const data = await db.getCommandsPerDay(period);
+    const style = c.req.query('style') || 'bar';
 
-    // Parse color parameters
-    const baseColor = c.req.query('color') || c.req.query('baseColor');
-    const textColor = c.req.query('textColor');
-    const cellBackground = c.req.query('cellBackground');
+    if (!TIME_OF_DAY_STYLES.includes(style as TimeOfDayChartStyle)) {
+      throw new HTTPException(400, {
+        message: `Invalid style. Expected one of ${TIME_OF_DAY_STYLES.join(', ')}, got: ${style}`,
+      });
+    }
 
-    // Parse numeric parameters
-    const cellSize = c.req.query('cellSize')
-      ? parseInt(c.req.query('cellSize')!, 10)
-      : undefined;
-    const cellGap = c.req.query('cellGap')
-      ? parseInt(c.req.query('cellGap')!, 10)
-      : undefined;
+    const data = await db.getTimeOfDayStats(period);
+    const {baseColor, textColor, cellBackground, darkColors} =
+      getSvgOptionsFromContext(c);
+
+    const svg = generateTimeOfDayChart(data, {
+      style: style as TimeOfDayChartStyle,
+      baseColor,
+      textColor,
+      cellBackground,
+      darkColors,
+    });
+
+    c.header('Content-Type', 'image/svg+xml');
+    return c.body(svg);
+  });
+
+  // Day of week by hour of day stats
+  app.get('/punchcard', cacheMiddleware, async c => {
+    const period = getPeriodFromContext(c);
+    const data = await db.getPunchcardStats(period);
+    return c.json(data);
+  });
+
+  // SVG punch card
+  app.get('/punchcard.svg', cacheMiddleware, async c => {
+    const period = getPeriodFromContext(c);
+    const data = await db.getPunchcardStats(period);
+
+    const svg = generatePunchcard(data, {
+      ...getSvgOptionsFromContext(c),
+      showHourLabels: parseBoolean(c.req.query('showHourLabels')),
+    });
+
+    c.header('Content-Type', 'image/svg+xml');
+    return c.body(svg);
+  });
+
+  // Terminal session stats
+  app.get('/sessions', cacheMiddleware, async c => {
+    const period = getPeriodFromContext(c);
+    const limit = getLimitFromContext(c);
+    const data = await db.getSessionStats({...period, limit});
+    return c.json(data);
+  });
+
+  // Most frequently run commands
+  app.get('/commands/top', cacheMiddleware, async c => {
+    const period = getPeriodFromContext(c);
+    const limit = getLimitFromContext(c);
+    const data = await db.getTopCommands({...period, limit});
+    return c.json(data);
+  });
+
+  // Subcommands of a single program
+  app.get('/commands/:program/subcommands', cacheMiddleware, async c => {
+    const period = getPeriodFromContext(c);
+    const limit = getLimitFromContext(c);
+    const program = c.req.param('program');
+    const data = await db.getSubcommands({...period, program, limit});
+    return c.json(data);
+  });
+
+  // Failure rates based on exit codes
+  app.get('/failures', cacheMiddleware, async c => {
+    const period = getPeriodFromContext(c);
+    const limit = getLimitFromContext(c);
+    const data = await db.getFailureStats({...period, limit});
+    return c.json(data);
+  });
+
+  // Command duration statistics
+  app.get('/duration', cacheMiddleware, async c => {
+    const period = getPeriodFromContext(c);
+    const limit = getLimitFromContext(c);
+    const data = await db.getDurationStats({...period, limit});
+    return c.json(data);
+  });
 
-    // Parse boolean parameters (accept 'true', '1', 'false', '0')
-    const parseBoolean = (value: string | undefined): boolean | undefined => {
-      if (value === undefined) {
-        return undefined;
+  // Hosts commands were run on
+  app.get('/hosts', cacheMiddleware, async c => {
+    const period = getPeriodFromContext(c);
+    const data = await db.getHosts(period);
+    return c.json(data);
+  });
+
+  // Directories commands were run in
+  app.get('/directories', cacheMiddleware, async c => {
+    const period = getPeriodFromContext(c);
+    const limit = getLimitFromContext(c);
+    const depthParam = c.req.query('depth');
+    const gitRoot = parseBoolean(c.req.query('gitRoot'));
+
+    let depth: number | undefined;
+    if (depthParam) {
+      depth = Number(depthParam);
+      if (!Number.isInteger(depth) || depth <= 0) {
+        throw new HTTPException(400, {
+          message: `Invalid depth. Expected a positive integer, got: ${depthParam}`,
+        });
       }
-      return value === 'true' || value === '1';
+    }
+
+    const data = await db.getDirectories({...period, limit, depth, gitRoot});
+    return c.json(data);
+  });
+
+  // Streak and consistency stats
+  app.get('/streaks', cacheMiddleware, async c => {
+    const period = getPeriodFromContext(c);
+    const data = await db.getCommandsPerDay(period);
+    return c.json(calculateStreaks(data, getStreakRange(period)));
+  });
+
+  // Unusually busy or quiet days
+  app.get('/anomalies', cacheMiddleware, async c => {
+    const period = getPeriodFromContext(c);
+    const method = c.req.query('method') || 'zscore';
+
+    if (!ANOMALY_METHODS.includes(method as AnomalyMethod)) {
+      throw new HTTPException(400, {
+        message: `Invalid method. Expected one of ${ANOMALY_METHODS.join(', ')}, got: ${method}`,
+      });
+    }
+
+    const windowParam = c.req.query('window');
+    const window = windowParam ? Number(windowParam) : 28;
+
+    if (!Number.isInteger(window) || window < 7 || window > 365) {
+      throw new HTTPException(400, {
+        message: `Invalid window. Expected an integer between 7 and 365, got: ${windowParam}`,
+      });
+    }
+
+    const thresholdParam = c.req.query('threshold');
+    const threshold = thresholdParam ? Number(thresholdParam) : 3;
+
+    if (!Number.isFinite(threshold) || threshold <= 0) {
+      throw new HTTPException(400, {
+        message: `Invalid threshold. Expected a positive number, got: ${thresholdParam}`,
+      });
+    }
+
+    const anomalies = await getAnomalies(period, {
+      method: method as AnomalyMethod,
+      window,
+      threshold,
+    });
+    return c.json(anomalies);
+  });
+
+  // Period over period comparison
+  app.get('/compare', cacheMiddleware, async c => {
+    const period = getPeriodFromContext(c);
+    const {startDate, endDate} = period;
+
+    if (!startDate || !endDate) {
+      throw new HTTPException(400, {
+        message: 'A period, or both a start and end date, is required to compare',
+      });
+    }
+
+    const compareStart = c.req.query('compareStart') || undefined;
+    const compareEnd = c.req.query('compareEnd') || undefined;
+
+    if (!compareStart !== !compareEnd) {
+      throw new HTTPException(400, {
+        message: 'Both compareStart and compareEnd must be provided',
+      });
+    }
+
+    const validationError = validateDateParams(compareStart, compareEnd);
+    if (validationError) {
+      throw new HTTPException(400, {message: validationError});
+    }
+
+    // Compare against the preceding window of equal length by default
+    const current = {startDate, endDate};
+    const previous =
+      compareStart && compareEnd
+        ? {startDate: compareStart, endDate: compareEnd}
+        : getPreviousPeriod(startDate, endDate);
+
+    const summarize = async (range: {startDate: string; endDate: string}) => {
+      const [daily, timeOfDay] = await Promise.all([
+        db.getCommandsPerDay({...period, ...range}),
+        db.getTimeOfDayStats({...period, ...range}),
+      ]);
+      return summarizeWindow(daily, timeOfDay.hourly, range);
     };
 
-    const showMonthLabels = parseBoolean(c.req.query('showMonthLabels'));
-    const showDayLabels = parseBoolean(c.req.query('showDayLabels'));
+    const [currentSummary, previousSummary] = await Promise.all([
+      summarize(current),
+      summarize(previous),
+    ]);
 
-    const svg = generateContributionGraph(data, {
+    return c.json(compareWindows(currentSummary, previousSummary));
+  });
+
+  // Year in review
+  app.get('/wrapped', cacheMiddleware, async c => {
+    const data = await getWrappedSummary(c);
+    return c.json(data);
+  });
+
+  // SVG year in review card
+  app.get('/wrapped.svg', cacheMiddleware, async c => {
+    const summary = await getWrappedSummary(c);
+    const {baseColor, textColor, cellBackground, darkColors} =
+      getSvgOptionsFromContext(c);
+
+    const svg = generateWrappedCard(summary, {
       baseColor,
       textColor,
       cellBackground,
-      cellSize,
-      cellGap,
+      darkColors,
+    });
+
+    c.header('Content-Type', 'image/svg+xml');
+    return c.body(svg);
+  });
+
+  // SVG badge
+  app.get('/badge.svg', cacheMiddleware, async c => {
+    const period = getPeriodFromContext(c);
+    const metric = c.req.query('metric') || 'total';
+
+    if (!BADGE_METRICS.includes(metric as BadgeMetric)) {
+      throw new HTTPException(400, {
+        message: `Invalid metric. Expected one of ${BADGE_METRICS.join(', ')}, got: ${metric}`,
+      });
+    }
+
+    const color = getColorFromContext(c, 'color');
+    const labelColor = getColorFromContext(c, 'labelColor');
+
+    let message: string;
+    switch (metric as BadgeMetric) {
+      case 'total': {
+        const {total} = await db.getStats(period);
+        message = total.toLocaleString('en-US');
+        break;
+      }
+      case 'today': {
+        const today = Temporal.Now.plainDateISO(period.timezone).toString();
+        const data = await db.getCommandsPerDay({
+          ...period,
+          startDate: today,
+          endDate: today,
+        });
+        message = data.reduce((sum, d) => sum + d.count, 0).toLocaleString('en-US');
+        break;
+      }
+      case 'streak': {
+        const data = await db.getCommandsPerDay(period);
+        const {currentStreak} = calculateStreaks(data, getStreakRange(period));
+        message = `${currentStreak} ${currentStreak === 1 ? 'day' : 'days'}`;
+        break;
+      }
+      case 'avgPerDay': {
+        // Averaged over every day of the period, or since the first command
+        const data = await db.getCommandsPerDay(period);
+        const {totalDays} = calculateStreaks(data, getStreakRange(period));
+        const total = data.reduce((sum, d) => sum + d.count, 0);
+        message = (totalDays > 0 ? total / totalDays : 0).toLocaleString('en-US', {
+          maximumFractionDigits: 1,
+        });
+        break;
+      }
+    }
+
+    const svg = generateBadge({
+      label: c.req.query('label') || BADGE_LABELS[metric as BadgeMetric],
+      message,
+      color,
+      labelColor,
+    });
+
+    c.header('Content-Type', 'image/svg+xml');
+    return c.body(svg);
+  });
+
+  // SVG sparkline
+  app.get('/sparkline.svg', cacheMiddleware, async c => {
+    const period = getPeriodFromContext(c);
+    const granularity = c.req.query('granularity') || 'day';
+
+    if (!SPARKLINE_GRANULARITIES.includes(granularity as HistoryGranularity)) {
+      throw new HTTPException(400, {
+        message: `Invalid granularity. Expected one of ${SPARKLINE_GRANULARITIES.join(', ')}, got: ${granularity}`,
+      });
+    }
+
+    const width = getSizeFromContext(c, 'width');
+    const height = getSizeFromContext(c, 'height');
+    const strokeColor = getColorFromContext(c, 'strokeColor', 'color');
+    const fillColor = getColorFromContext(c, 'fillColor');
+
+    const data = await db.getCommandsPerDay({
+      ...period,
+      granularity: granularity as HistoryGranularity,
+      fill: 'zero',
+    });
+
+    const svg = generateSparkline(data, {width, height, strokeColor, fillColor});
+
+    c.header('Content-Type', 'image/svg+xml');
+    return c.body(svg);
+  });
+
+  // SVG contribution graph
+  app.get('/graph.svg', cacheMiddleware, async c => {
+    const period = getPeriodFromContext(c);
+    const layout = c.req.query('layout') || 'horizontal';
+
+    if (!GRAPH_LAYOUTS.includes(layout as GraphLayout)) {
+      throw new HTTPException(400, {
+        message: `Invalid layout. Expected one of ${GRAPH_LAYOUTS.join(', ')}, got: ${layout}`,
+      });
+    }
+
+    const weekStart = getWeekStartFromContext(c);
+    const locale = c.req.query('locale') || undefined;
+
+    if (locale && !isValidLocale(locale)) {
+      throw new HTTPException(400, {message: `Invalid locale: ${locale}`});
+    }
+
+    const data = await db.getCommandsPerDay(period);
+
+    const showMonthLabels = parseBoolean(c.req.query('showMonthLabels'));
+    const showStreaks = parseBoolean(c.req.query('showStreaks'));
+    const showAnomalies = parseBoolean(c.req.query('showAnomalies'));
+    const accessible = parseBoolean(c.req.query('accessible'));
+
+    const svg = generateContributionGraph(data, {
+      ...getSvgOptionsFromContext(c),
       showMonthLabels,
-      showDayLabels,
+      streaks: showStreaks ? calculateStreaks(data, getStreakRange(period)) : undefined,
+      anomalies: showAnomalies ? await getAnomalies(period) : undefined,
+      accessible,
+      layout: layout as GraphLayout,
+      weekStart,
+      locale,
     });
 
     c.header('Content-Type', 'image/svg+xml');
     return c.body(svg);
   });
 
+  // HTML dashboard
+  app.get('/dashboard', cacheMiddleware, c => c.html(generateDashboard()));
+
   // Stats at root
   app.get('/', cacheMiddleware, async c => {
     const period = getPeriodFromContext(c);
@@ -0,0 +1,43 @@
+import {assert} from '@std/assert';
+
+import {generateBadge} from './badge.ts';
+
+Deno.test('generateBadge renders the label and message', () => {
+  const svg = generateBadge({label: 'commands today', message: '214'});
+
+  assert(svg.startsWith('<svg'));
+  assert(svg.includes('>commands today</text>'));
+  assert(svg.includes('>214</text>'));
+  assert(svg.includes('aria-label="commands today: 214"'));
+  assert(svg.includes('fill="#555"'));
+  assert(svg.includes('fill="#fb7185"'));
+});
+
+Deno.test('generateBadge applies color overrides', () => {
+  const svg = generateBadge({
+    label: 'streak',
+    message: '37 days',
+    color: '#4c1',
+    labelColor: '#333',
+  });
+
+  assert(svg.includes('fill="#4c1"'));
+  assert(svg.includes('fill="#333"'));
+});
+
+Deno.test('generateBadge widens with longer text', () => {
+  const getWidth = (svg: string) => Number(svg.match(/width="(\d+)"/)?.[1]);
+
+  const short = generateBadge({label: 'streak', message: '3 days'});
+  const long = generateBadge({label: 'streak', message: '365 days'});
+
+  assert(getWidth(long) > getWidth(short));
+});
+
+Deno.test('generateBadge escapes text', () => {
+  const svg = generateBadge({label: '<script>', message: 'a & b'});
+
+  assert(!svg.includes('<script>'));
+  assert(svg.includes('&lt;script&gt;'));
+  assert(svg.includes('a &amp; b'));
+});
@@ -0,0 +1,74 @@
+import {escapeXml} from './utils.ts';
+
+export type BadgeMetric = 'total' | 'today' | 'streak' | 'avgPerDay';
+
+export interface BadgeOptions {
+  label: string;
+  message: string;
+  /**
+   * Background color of the message (right hand) side of the badge
+   */
+  color?: string;
+  /**
+   * Background color of the label (left hand) side of the badge
+   */
+  labelColor?: string;
+}
+
+const HEIGHT = 20;
+const HORIZONTAL_PADDING = 6;
+
+/**
+ * Estimate the width of a string rendered in 11px Verdana. SVG text can't be
+ * measured without a renderer, so characters are grouped by rough width.
+ */
+function estimateTextWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    if (/[iljtfI.,:;'|!() ]/.test(char)) {
+      width += 3.8;
+    } else if (/[mwMW@%]/.test(char)) {
+      width += 10;
+    } else if (/[A-Z]/.test(char)) {
+      width += 7.5;
+    } else {
+      width += 6.6;
+    }
+  }
+  return Math.round(width);
+}
+
+/**
+ * Generate a shields.io style badge SVG with a label on the left and a
+ * message on the right
+ */
+export function generateBadge(options: BadgeOptions): string {
+  const {label, message, color = '#fb7185', labelColor = '#555'} = options;
+
+  const labelWidth = estimateTextWidth(label) + HORIZONTAL_PADDING * 2;
+  const messageWidth = estimateTextWidth(message) + HORIZONTAL_PADDING * 2;
+  const width = labelWidth + messageWidth;
+
+  const text = (value: string, x: number) =>
+    `<text x="${x}" y="15" fill="#010101" fill-opacity=".3">${value}</text>` +
+    `<text x="${x}" y="14">${value}</text>`;
+
+  let svg = `<svg width="${width}" height="${HEIGHT}" xmlns="http://www.w3.org/2000/svg" role="img" aria-label="${escapeXml(`${label}: ${message}`)}">`;
+  svg += `<title>${escapeXml(`${label}: ${message}`)}</title>`;
+  svg +=
+    '<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>';
+  svg += `<clipPath id="r"><rect width="${width}" height="${HEIGHT}" rx="3" fill="#fff"/></clipPath>`;
+  svg += '<g clip-path="url(#r)">';
+  svg += `<rect width="${labelWidth}" height="${HEIGHT}" fill="${labelColor}"/>`;
+  svg += `<rect x="${labelWidth}" width="${messageWidth}" height="${HEIGHT}" fill="${color}"/>`;
+  svg += `<rect width="${width}" height="${HEIGHT}" fill="url(#s)"/>`;
+  svg += '</g>';
+  svg +=
+    '<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">';
+  svg += text(escapeXml(label), labelWidth / 2);
+  svg += text(escapeXml(message), labelWidth + messageWidth / 2);
+  svg += '</g>';
+  svg += '</svg>';
+
+  return svg;
+}
@@ -0,0 +1,31 @@
+import {assert} from '@std/assert';
+
+import {generateDashboard} from './dashboard.ts';
+
+Deno.test('generateDashboard renders a self-contained page', () => {
+  const html = generateDashboard();
+
+  assert(html.startsWith('<!doctype html>'));
+  assert(html.includes('<style>'));
+  assert(html.includes('<script>'));
+
+  // No assets are loaded from other origins
+  assert(!/(src|href)="(https?:)?\/\//.test(html));
+});
+
+Deno.test('generateDashboard loads data from the API routes', () => {
+  const html = generateDashboard();
+
+  assert(html.includes("request('./')"));
+  assert(html.includes("'./graph.svg'"));
+  assert(html.includes("'./time-of-day.svg'"));
+  assert(html.includes("Prefer: 'timezone=' + timezoneInput.value"));
+});
+
+Deno.test('generateDashboard offers a period picker and timezone selector', () => {
+  const html = generateDashboard();
+
+  assert(html.includes('<select name="period">'));
+  assert(html.includes('<option value="30d">Last 30 days</option>'));
+  assert(html.includes('<input name="timezone"'));
+});
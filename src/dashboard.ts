@@ -0,0 +1,190 @@
+/**
+ * Periods offered by the dashboard's period picker, as accepted by the
+ * `period` parameter
+ */
+const PERIODS = [
+  {value: '30d', label: 'Last 30 days'},
+  {value: '3m', label: 'Last 3 months'},
+  {value: '6m', label: 'Last 6 months'},
+  {value: '1y', label: 'Last year'},
+];
+
+const STYLE = `
+  :root {
+    color-scheme: light;
+    --text: #24292f;
+    --muted: #57606a;
+    --border: #d0d7de;
+    --background: #ffffff;
+    --panel: #f6f8fa;
+  }
+  * { box-sizing: border-box; }
+  body {
+    margin: 0;
+    padding: 24px;
+    font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace;
+    color: var(--text);
+    background: var(--background);
+  }
+  header {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 16px;
+    align-items: center;
+    justify-content: space-between;
+    margin-bottom: 24px;
+  }
+  h1 { margin: 0; font-size: 20px; }
+  h2 { margin: 0 0 12px; font-size: 13px; color: var(--muted); letter-spacing: 1px; }
+  form { display: flex; flex-wrap: wrap; gap: 12px; }
+  label { display: flex; gap: 6px; align-items: center; font-size: 13px; color: var(--muted); }
+  select, input {
+    font: inherit;
+    padding: 4px 6px;
+    border: 1px solid var(--border);
+    border-radius: 6px;
+    background: var(--background);
+    color: var(--text);
+  }
+  section {
+    padding: 16px;
+    margin-bottom: 16px;
+    border: 1px solid var(--border);
+    border-radius: 8px;
+    background: var(--panel);
+    overflow-x: auto;
+  }
+  .stats { display: flex; flex-wrap: wrap; gap: 32px; }
+  .stat strong { display: block; font-size: 28px; }
+  .stat span { font-size: 12px; color: var(--muted); }
+  .error { color: #cf222e; }
+`;
+
+const SCRIPT = `
+  const form = document.getElementById('controls');
+  const periodInput = form.elements.period;
+  const timezoneInput = form.elements.timezone;
+
+  const timezones = document.getElementById('timezones');
+  for (const timezone of Intl.supportedValuesOf?.('timeZone') ?? []) {
+    timezones.append(new Option(timezone));
+  }
+
+  const params = new URLSearchParams(location.search);
+  periodInput.value = params.get('period') ?? '1y';
+  timezoneInput.value =
+    params.get('timezone') ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  // Data is requested from the API routes, passing the timezone through the
+  // Prefer header as any other client would
+  async function request(path) {
+    const query = periodInput.value ? '?period=' + encodeURIComponent(periodInput.value) : '';
+    const res = await fetch(path + query, {
+      headers: {Prefer: 'timezone=' + timezoneInput.value},
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      throw new Error(body.error ?? res.statusText);
+    }
+    return res;
+  }
+
+  async function render(id, load) {
+    const element = document.getElementById(id);
+    try {
+      await load(element);
+    } catch (error) {
+      element.innerHTML = '';
+      const message = document.createElement('p');
+      message.className = 'error';
+      message.textContent = error.message;
+      element.append(message);
+    }
+  }
+
+  function renderSvg(id, path) {
+    return render(id, async element => {
+      element.innerHTML = await (await request(path)).text();
+    });
+  }
+
+  function renderStats() {
+    return render('stats', async element => {
+      const stats = await (await request('./')).json();
+      const lastCommand = stats.lastCommandAt
+        ? new Date(stats.lastCommandAt).toLocaleString(undefined, {
+            timeZone: timezoneInput.value,
+          })
+        : '-';
+
+      element.innerHTML = '';
+      for (const [value, label] of [
+        [stats.total.toLocaleString(), 'commands'],
+        [lastCommand, 'last command'],
+      ]) {
+        const stat = document.createElement('div');
+        stat.className = 'stat';
+        stat.append(document.createElement('strong'), document.createElement('span'));
+        stat.firstChild.textContent = value;
+        stat.lastChild.textContent = label;
+        element.append(stat);
+      }
+    });
+  }
+
+  function refresh() {
+    const search = new URLSearchParams({
+      period: periodInput.value,
+      timezone: timezoneInput.value,
+    });
+    history.replaceState(null, '', '?' + search);
+
+    renderStats();
+    renderSvg('graph', './graph.svg');
+    renderSvg('time-of-day', './time-of-day.svg');
+  }
+
+  form.addEventListener('change', refresh);
+  form.addEventListener('submit', event => {
+    event.preventDefault();
+    refresh();
+  });
+
+  refresh();
+`;
+
+/**
+ * Generate a self-contained HTML dashboard of the stats, contribution graph
+ * and time-of-day chart. The page loads its data from the API routes in the
+ * browser, so it needs no assets of its own.
+ */
+export function generateDashboard(): string {
+  const periods = PERIODS.map(p => `<option value="${p.value}">${p.label}</option>`).join(
+    ''
+  );
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Atuin Abacus</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+<h1>Atuin Abacus</h1>
+<form id="controls">
+<label>Period <select name="period">${periods}<option value="">All time</option></select></label>
+<label>Timezone <input name="timezone" list="timezones" size="24" autocomplete="off"></label>
+<datalist id="timezones"></datalist>
+</form>
+</header>
+<section><h2>STATS</h2><div id="stats" class="stats"></div></section>
+<section><h2>ACTIVITY</h2><div id="graph"></div></section>
+<section><h2>TIME OF DAY</h2><div id="time-of-day"></div></section>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
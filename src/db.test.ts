@@ -1,14 +1,27 @@
 import {assert, assertEquals} from '@std/assert';
 import {load} from '@std/dotenv';
 
-import {setupTestDatabase} from '../test/setup.ts';
+import {executeTestQuery, setupTestDatabase} from '../test/setup.ts';
 
 // IMPORTANT: Load test env file BEFORE importing any modules that read env vars
 Deno.env.set('SKIP_ENV_LOAD', '1');
 await load({envPath: '.env.test', export: true});
 
 // Now import db functions after setting the env var
-import {closePool, getCommandsPerDay, getStats, getTimeOfDayStats} from './db.ts';
+import {
+  closePool,
+  getCommandsPerDay,
+  getDirectories,
+  getDurationStats,
+  getFailureStats,
+  getHosts,
+  getPunchcardStats,
+  getSessionStats,
+  getStats,
+  getSubcommands,
+  getTimeOfDayStats,
+  getTopCommands,
+} from './db.ts';
 
 // Setup test database before all tests
 await setupTestDatabase();
@@ -246,6 +259,513 @@ Deno.test({
   },
 });
 
+Deno.test('getPunchcardStats - averages each hour per day of the week', async () => {
+  const result = await getPunchcardStats({timezone: 'UTC'});
+
+  assertEquals(result.days.length, 7);
+  assert(result.days.every(hours => hours.length === 24));
+
+  // Commands ran on a single Monday (2024-01-01), Tuesday (2024-01-02),
+  // Thursday (2026-01-01) and Friday (2026-01-02)
+  assertEquals(result.days[1][9], 1);
+  assertEquals(result.days[1][15], 1);
+  assertEquals(result.days[2][11], 1);
+  assertEquals(result.days[2][15], 0);
+  assertEquals(result.days[4][14], 1);
+
+  // No commands ran on the weekend
+  assertEquals(result.days[0], new Array(24).fill(0));
+  assertEquals(result.days[6], new Array(24).fill(0));
+});
+
+Deno.test('getTopCommands - ranks programs and full commands', async () => {
+  const result = await getTopCommands({timezone: 'UTC', limit: 10});
+
+  // 8 non-deleted history entries plus the decrypted store entry
+  // git is the only program run more than once (git status, git pull)
+  assertEquals(result.programs[0], {command: 'git', count: 2});
+  assertEquals(result.programs.length, 8);
+
+  // Every full command line is unique in the fixtures
+  assertEquals(result.commands.length, 9);
+  assert(result.commands.every(c => c.count === 1));
+
+  // Deleted records should not be counted
+  assert(!result.commands.some(c => c.command === 'rm -rf node_modules'));
+});
+
+Deno.test('getTopCommands - respects limit and date range', async () => {
+  const result = await getTopCommands({
+    startDate: '2024-01-02',
+    endDate: '2024-01-02',
+    timezone: 'UTC',
+    limit: 2,
+  });
+
+  assertEquals(result.programs.length, 2);
+  assertEquals(result.commands.length, 2);
+
+  // Ties are broken alphabetically
+  assertEquals(result.programs, [
+    {command: 'cat', count: 1},
+    {command: 'git', count: 1},
+  ]);
+});
+
+Deno.test({
+  name: 'getTopCommands - groups wrapped commands by program',
+  sanitizeResources: false,
+  fn: async () => {
+    await executeTestQuery(`
+      INSERT INTO history (
+        id, client_id, user_id, hostname, timestamp, command, cwd, duration, exit, session
+      ) VALUES (
+        '11111111-1111-1111-1111-111111111120',
+        '22222222-2222-2222-2222-222222222222',
+        '33333333-3333-3333-3333-333333333333',
+        'test-host', '2024-01-02 12:00:00+00', 'GIT_PAGER=cat sudo git log',
+        '/home/user/project', 1000000, 0, 'session1'
+      )
+    `);
+    try {
+      const result = await getTopCommands({
+        startDate: '2024-01-02',
+        endDate: '2024-01-02',
+        timezone: 'UTC',
+        limit: 1,
+      });
+
+      assertEquals(result.programs, [{command: 'git', count: 2}]);
+    } finally {
+      await executeTestQuery(
+        `DELETE FROM history WHERE id = '11111111-1111-1111-1111-111111111120'`
+      );
+    }
+  },
+});
+
+Deno.test('getSubcommands - ranks subcommands of a program', async () => {
+  const result = await getSubcommands({timezone: 'UTC', program: 'git', limit: 10});
+
+  assertEquals(result.program, 'git');
+  assertEquals(result.subcommands, [
+    {subcommand: 'pull', count: 1},
+    {subcommand: 'status', count: 1},
+  ]);
+  assertEquals(result.daily, [
+    {date: '2024-01-01', count: 1},
+    {date: '2024-01-02', count: 1},
+  ]);
+});
+
+Deno.test('getSubcommands - ignores commands that only mention the program', async () => {
+  // "deno test" mentions "test" but never runs it
+  const result = await getSubcommands({timezone: 'UTC', program: 'test', limit: 10});
+
+  assertEquals(result.subcommands, []);
+  assertEquals(result.daily, []);
+});
+
+Deno.test('getFailureStats - calculates failure rates', async () => {
+  const result = await getFailureStats({timezone: 'UTC', limit: 10});
+
+  // Only entries with exit codes count: 2 of the 8 history commands failed
+  // and the decrypted store entry succeeded
+  assertEquals(result.total, 9);
+  assertEquals(result.failed, 2);
+  assertEquals(result.failureRate, 0.2222);
+
+  assertEquals(result.daily, [
+    {date: '2024-01-01', count: 5, failed: 2},
+    {date: '2024-01-02', count: 3, failed: 0},
+    {date: '2026-01-01', count: 1, failed: 0},
+  ]);
+
+  assertEquals(result.commands, [
+    {command: 'curl https://example.com', count: 1, failed: 1, failureRate: 1},
+    {command: 'npm install', count: 1, failed: 1, failureRate: 1},
+  ]);
+});
+
+Deno.test('getCommandsPerDay - filters by exit status', async () => {
+  const failed = await getCommandsPerDay({timezone: 'UTC', status: 'failed'});
+  assertEquals(failed, [{date: '2024-01-01', count: 2}]);
+
+  // Store entries which can't be decrypted have no exit status and are excluded
+  const succeeded = await getCommandsPerDay({timezone: 'UTC', status: 'success'});
+  assertEquals(succeeded, [
+    {date: '2024-01-01', count: 3},
+    {date: '2024-01-02', count: 3},
+    {date: '2026-01-01', count: 1},
+  ]);
+});
+
+Deno.test('getDurationStats - calculates daily percentiles', async () => {
+  const result = await getDurationStats({timezone: 'UTC', limit: 3});
+
+  // Only history and decrypted store entries have durations (in nanoseconds)
+  assertEquals(result.daily, [
+    {date: '2024-01-01', count: 5, p50: 200, p90: 8000, p99: 9800, total: 15450},
+    {date: '2024-01-02', count: 3, p50: 300, p90: 24060, p99: 29406, total: 30350},
+    {date: '2026-01-01', count: 1, p50: 60000, p90: 60000, p99: 60000, total: 60000},
+  ]);
+});
+
+Deno.test('getDurationStats - ranks slowest commands and programs', async () => {
+  const result = await getDurationStats({timezone: 'UTC', limit: 3});
+
+  assertEquals(
+    result.commands.map(c => c.command),
+    ['cargo build', 'vim config.ts', 'npm install']
+  );
+  assertEquals(result.commands[1], {
+    command: 'vim config.ts',
+    count: 1,
+    average: 30000,
+    total: 30000,
+  });
+
+  const all = await getDurationStats({timezone: 'UTC', limit: 10});
+  const git = all.programs.find(p => p.command === 'git');
+  assertEquals(git, {command: 'git', count: 2, average: 225, total: 450});
+});
+
+Deno.test('getCommandsPerDay - duration metric sums milliseconds', async () => {
+  const result = await getCommandsPerDay({timezone: 'UTC', metric: 'duration'});
+
+  assertEquals(result, [
+    {date: '2024-01-01', count: 15450},
+    {date: '2024-01-02', count: 30350},
+    {date: '2026-01-01', count: 60000},
+  ]);
+});
+
+Deno.test('getCommandsPerDay - buckets by month and year', async () => {
+  const monthly = await getCommandsPerDay({
+    timezone: 'UTC',
+    granularity: 'month',
+    startDate: '2024-01-01',
+    endDate: '2024-12-31',
+  });
+  assertEquals(monthly, [{date: '2024-01-01', count: 8}]);
+
+  // Empty buckets between the first and last bucket are zero-filled
+  const yearly = await getCommandsPerDay({timezone: 'UTC', granularity: 'year'});
+  assertEquals(yearly, [
+    {date: '2024-01-01', count: 8},
+    {date: '2025-01-01', count: 0},
+    {date: '2026-01-01', count: 8},
+  ]);
+});
+
+Deno.test('getCommandsPerDay - buckets by week from the week start', async () => {
+  const opts = {timezone: 'UTC', startDate: '2026-01-01', endDate: '2026-01-31'};
+
+  // 2026-01-01 is a Thursday and 2026-01-02 a Friday
+  const sunday = await getCommandsPerDay({...opts, granularity: 'week'});
+  assertEquals(sunday, [{date: '2025-12-28', count: 8}]);
+
+  const friday = await getCommandsPerDay({
+    ...opts,
+    granularity: 'week',
+    weekStart: 'friday',
+  });
+  assertEquals(friday, [
+    {date: '2025-12-26', count: 5},
+    {date: '2026-01-02', count: 3},
+  ]);
+});
+
+Deno.test('getCommandsPerDay - buckets by hour in the timezone', async () => {
+  const result = await getCommandsPerDay({
+    timezone: 'America/New_York',
+    granularity: 'hour',
+    startDate: '2026-01-01',
+    endDate: '2026-01-01',
+  });
+
+  // Store commands ran at 09:00-11:00 and 14:00-15:00 UTC on 2026-01-01
+  assertEquals(result, [
+    {date: '2026-01-01T04:00:00', count: 1},
+    {date: '2026-01-01T05:00:00', count: 1},
+    {date: '2026-01-01T06:00:00', count: 1},
+    {date: '2026-01-01T07:00:00', count: 0},
+    {date: '2026-01-01T08:00:00', count: 0},
+    {date: '2026-01-01T09:00:00', count: 1},
+    {date: '2026-01-01T10:00:00', count: 1},
+  ]);
+});
+
+Deno.test('getCommandsPerDay - zero-fills the full period', async () => {
+  const result = await getCommandsPerDay({
+    timezone: 'UTC',
+    startDate: '2023-12-30',
+    endDate: '2024-01-04',
+    fill: 'zero',
+  });
+
+  assertEquals(result, [
+    {date: '2023-12-30', count: 0},
+    {date: '2023-12-31', count: 0},
+    {date: '2024-01-01', count: 5},
+    {date: '2024-01-02', count: 3},
+    {date: '2024-01-03', count: 0},
+    {date: '2024-01-04', count: 0},
+  ]);
+
+  // Buckets are filled from the bucket containing the start date
+  const monthly = await getCommandsPerDay({
+    timezone: 'UTC',
+    startDate: '2023-11-15',
+    endDate: '2024-01-31',
+    granularity: 'month',
+    fill: 'zero',
+  });
+
+  assertEquals(monthly, [
+    {date: '2023-11-01', count: 0},
+    {date: '2023-12-01', count: 0},
+    {date: '2024-01-01', count: 8},
+  ]);
+});
+
+Deno.test('getHosts - lists hosts from both tables', async () => {
+  const result = await getHosts({timezone: 'UTC'});
+
+  assertEquals(result, [
+    {
+      host: '55555555-5555-5555-5555-555555555555',
+      total: 8,
+      firstSeenAt: '2026-01-01T09:00:00+00:00',
+      lastSeenAt: '2026-01-02T11:00:00+00:00',
+    },
+    {
+      host: 'test-host',
+      total: 8,
+      firstSeenAt: '2024-01-01T09:00:00+00:00',
+      lastSeenAt: '2024-01-02T11:00:00+00:00',
+    },
+  ]);
+});
+
+Deno.test('getCommandsPerDay - filters by host', async () => {
+  const result = await getCommandsPerDay({timezone: 'UTC', hosts: ['test-host']});
+
+  assertEquals(result, [
+    {date: '2024-01-01', count: 5},
+    {date: '2024-01-02', count: 3},
+  ]);
+});
+
+Deno.test('getStats - filters by multiple hosts', async () => {
+  const both = await getStats({
+    timezone: 'UTC',
+    hosts: ['test-host', '55555555-5555-5555-5555-555555555555'],
+  });
+  assertEquals(both.total, 16);
+
+  const unknown = await getStats({timezone: 'UTC', hosts: ['unknown-host']});
+  assertEquals(unknown.total, 0);
+});
+
+Deno.test('getStats - filters by username', async () => {
+  // History entries belong to testuser, store entries belong to otheruser
+  const testUser = await getStats({timezone: 'UTC', user: 'testuser'});
+  assertEquals(testUser.total, 8);
+  assert(testUser.lastCommandAt?.startsWith('2024-01-02'));
+
+  const otherUser = await getStats({timezone: 'UTC', user: 'otheruser'});
+  assertEquals(otherUser.total, 8);
+  assert(otherUser.lastCommandAt?.startsWith('2026-01-02'));
+});
+
+Deno.test('getCommandsPerDay - filters by user id', async () => {
+  const result = await getCommandsPerDay({
+    timezone: 'UTC',
+    user: '66666666-6666-6666-6666-666666666666',
+  });
+
+  assertEquals(result, [
+    {date: '2026-01-01', count: 5},
+    {date: '2026-01-02', count: 3},
+  ]);
+
+  const unknown = await getCommandsPerDay({timezone: 'UTC', user: 'nobody'});
+  assertEquals(unknown, []);
+});
+
+Deno.test('getDirectories - counts commands per directory', async () => {
+  const result = await getDirectories({timezone: 'UTC', limit: 10});
+
+  assertEquals(result, [
+    {directory: '/home/user/project', count: 6},
+    {directory: '/home/user', count: 2},
+    {directory: '/home/user/rust', count: 1},
+  ]);
+});
+
+Deno.test('getDirectories - rolls up to depth', async () => {
+  const result = await getDirectories({timezone: 'UTC', limit: 10, depth: 1});
+
+  assertEquals(result, [{directory: '/home', count: 9}]);
+});
+
+Deno.test('getDirectories - rolls up to git repository root', async () => {
+  const result = await getDirectories({
+    timezone: 'UTC',
+    limit: 10,
+    gitRoot: true,
+  });
+
+  // git commands were only run in /home/user/project, so neither /home/user nor
+  // /home/user/rust are part of a repository
+  assertEquals(result, [
+    {directory: '/home/user/project', count: 6},
+    {directory: '/home/user', count: 2},
+    {directory: '/home/user/rust', count: 1},
+  ]);
+});
+
+Deno.test({
+  name: 'getDirectories - infers repository roots from every git invocation',
+  sanitizeResources: false,
+  fn: async () => {
+    const ids = ['121', '122', '123', '124'].map(
+      suffix => `11111111-1111-1111-1111-111111111${suffix}`
+    );
+    await executeTestQuery(`
+      INSERT INTO history (
+        id, client_id, user_id, hostname, timestamp, command, cwd, duration, exit, session
+      )
+      SELECT
+        id::uuid, '22222222-2222-2222-2222-222222222222',
+        '33333333-3333-3333-3333-333333333333', 'test-host', '2024-01-03 12:00:00+00',
+        command, cwd, 1000000, 0, 'session1'
+      FROM (VALUES
+        ('${ids[0]}', 'git clone https://example.com/notes.git', '/home/user'),
+        ('${ids[1]}', 'ls', '/home/user/notes'),
+        ('${ids[2]}', 'cd rust && git status', '/home/user'),
+        ('${ids[3]}', 'cargo test', '/home/user/rust/src')
+      ) AS entries(id, command, cwd)
+    `);
+    try {
+      const result = await getDirectories({timezone: 'UTC', limit: 10, gitRoot: true});
+
+      // Cloning doesn't make /home/user a repository, while the repository cd
+      // moved into is one
+      assertEquals(result, [
+        {directory: '/home/user/project', count: 6},
+        {directory: '/home/user', count: 4},
+        {directory: '/home/user/rust', count: 2},
+        {directory: '/home/user/notes', count: 1},
+      ]);
+    } finally {
+      await executeTestQuery(
+        `DELETE FROM history WHERE id IN (${ids.map(id => `'${id}'`).join(', ')})`
+      );
+    }
+  },
+});
+
+Deno.test('getCommandsPerDay - filters by cwd prefix', async () => {
+  const project = await getCommandsPerDay({timezone: 'UTC', cwd: '/home/user/project/'});
+  assertEquals(project, [
+    {date: '2024-01-01', count: 3},
+    {date: '2024-01-02', count: 3},
+  ]);
+
+  // Prefixes only match whole path segments
+  const partial = await getCommandsPerDay({timezone: 'UTC', cwd: '/home/us'});
+  assertEquals(partial, []);
+
+  const home = await getStats({timezone: 'UTC', cwd: '/home'});
+  assertEquals(home.total, 9);
+});
+
+Deno.test('getTopCommands - includes decrypted store commands', async () => {
+  const result = await getTopCommands({
+    startDate: '2026-01-01',
+    endDate: '2026-01-31',
+    timezone: 'UTC',
+    limit: 10,
+  });
+
+  // Only the first store record holds valid encrypted data
+  assertEquals(result.programs, [{command: 'cargo', count: 1}]);
+  assertEquals(result.commands, [{command: 'cargo build', count: 1}]);
+});
+
+Deno.test({
+  name: 'getStats - includes store records committed after an earlier refresh',
+  sanitizeResources: false,
+  fn: async () => {
+    const period = {startDate: '2026-01-01', endDate: '2026-01-31', timezone: 'UTC'};
+    assertEquals((await getStats(period)).total, 8);
+
+    // A record created before every other record, but only committed now
+    await executeTestQuery(`
+      INSERT INTO store (
+        id, client_id, host_id, user_id, tag, timestamp, version, data, crc, idx, created_at
+      ) VALUES (
+        '44444444-4444-4444-4444-444444444440',
+        '22222222-2222-2222-2222-222222222222',
+        '55555555-5555-5555-5555-555555555555',
+        '66666666-6666-6666-6666-666666666666',
+        'history', 1767258000000000000, 'v1', '\\x01020304', 12354, 10,
+        '2000-01-01 00:00:00+00'
+      )
+    `);
+    try {
+      assertEquals((await getStats(period)).total, 9);
+    } finally {
+      await executeTestQuery(
+        `DELETE FROM store WHERE id = '44444444-4444-4444-4444-444444444440'`
+      );
+    }
+
+    assertEquals((await getStats(period)).total, 8);
+  },
+});
+
+Deno.test('getSessionStats - summarizes sessions', async () => {
+  const result = await getSessionStats({timezone: 'UTC', limit: 10});
+
+  // session1 runs 09:00-15:00 with 5 commands, session2 runs 09:00-11:00 with
+  // 3 commands, session3 only contains a deleted command and session4 is the
+  // single decrypted store command
+  assertEquals(result.total, 3);
+  assertEquals(result.daily, [
+    {date: '2024-01-01', count: 1},
+    {date: '2024-01-02', count: 1},
+    {date: '2026-01-01', count: 1},
+  ]);
+  assertEquals(result.medianDuration, 7200);
+  assertEquals(result.medianCommands, 3);
+  assertEquals(result.averageCommands, 3);
+
+  assertEquals(result.longest[0], {
+    session: 'session1',
+    startedAt: '2024-01-01T09:00:00+00:00',
+    endedAt: '2024-01-01T15:00:00+00:00',
+    duration: 21600,
+    commands: 5,
+  });
+  assertEquals(result.longest[1].session, 'session2');
+});
+
+Deno.test('getSessionStats - with date range', async () => {
+  const result = await getSessionStats({
+    startDate: '2024-01-02',
+    endDate: '2024-01-02',
+    timezone: 'UTC',
+    limit: 10,
+  });
+
+  assertEquals(result.total, 1);
+  assertEquals(result.medianDuration, 7200);
+  assertEquals(result.longest.length, 1);
+});
+
 // Cleanup: Close database pool to prevent resource leaks
 Deno.test({
   name: 'Cleanup database connections',
@@ -1,9 +1,26 @@
-import {Pool} from 'postgres';
+import {Pool, type PoolClient} from 'postgres';
 
 import {getConfig} from './config.ts';
+import {decodeHistoryRecord, decodeKey, decryptRecord} from './encryption.ts';
+import {
+  findProgram,
+  findSubcommands,
+  getSubcommand,
+  isProgramWord,
+  parseCommandDirectories,
+} from './shell.ts';
+import {
+  DEFAULT_WEEK_START,
+  fillEmptyBuckets,
+  findRepositoryRoot,
+  truncatePath,
+  type Weekday,
+  WEEKDAYS,
+} from './utils.ts';
 
 const config = getConfig();
 const pool = new Pool(config.databaseUrl, 3, true);
+const encryptionKey = config.encryptionKey ? decodeKey(config.encryptionKey) : null;
 
 export interface DailyCommandCount {
   date: string;
@@ -14,10 +31,234 @@ export interface TimeOfDayStats {
   hourly: number[];
 }
 
+export interface PunchcardStats {
+  /**
+   * Average commands per hour (0-23) for each day of the week, indexed by day
+   * of the week starting with Sunday (0)
+   */
+  days: number[][];
+}
+
+/**
+ * Filter commands by their exit status. Commands without a known exit status
+ * (such as record store entries which can't be decrypted) are excluded when filtering.
+ */
+export type CommandStatus = 'success' | 'failed';
+
+export interface SessionSummary {
+  session: string;
+  startedAt: string;
+  endedAt: string;
+  /**
+   * Time between the first and last command of the session, in seconds
+   */
+  duration: number;
+  commands: number;
+}
+
+export interface SessionStats {
+  total: number;
+  /**
+   * Number of sessions started per day
+   */
+  daily: DailyCommandCount[];
+  /**
+   * Median session length in seconds
+   */
+  medianDuration: number;
+  medianCommands: number;
+  averageCommands: number;
+  longest: SessionSummary[];
+}
+
+export interface SessionOptions extends Period {
+  limit: number;
+}
+
 export interface Period {
   startDate?: string;
   endDate?: string;
   timezone: string;
+  status?: CommandStatus;
+  /**
+   * Only include commands run on these hosts. Hosts are identified by their
+   * hostname for history table entries and by host id for store entries.
+   */
+  hosts?: string[];
+  /**
+   * Only include commands of a single user, identified either by their user
+   * id or by their username
+   */
+  user?: string;
+  /**
+   * Only include commands run within this directory or its subdirectories
+   */
+  cwd?: string;
+}
+
+/**
+ * What is being measured per day in a daily series
+ * - count: Number of commands run
+ * - duration: Total time spent running commands, in milliseconds
+ */
+export type HistoryMetric = 'count' | 'duration';
+
+/**
+ * How buckets without any commands are filled in a history series
+ */
+export type HistoryFill = 'zero';
+
+/**
+ * The size of each bucket in a history series
+ */
+export type HistoryGranularity = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+export interface HistoryOptions extends Period {
+  metric?: HistoryMetric;
+  /**
+   * Bucket size of the series (default: day). Empty buckets are zero-filled
+   * for every granularity other than day.
+   */
+  granularity?: HistoryGranularity;
+  /**
+   * The day weekly buckets start on (default: sunday)
+   */
+  weekStart?: Weekday;
+  /**
+   * Return every bucket of the period, with `0` for buckets without commands.
+   * Without an end date the period ends today.
+   */
+  fill?: HistoryFill;
+}
+
+export interface CommandCount {
+  command: string;
+  count: number;
+}
+
+export interface TopCommands {
+  /**
+   * Commands grouped by the program being run (the first word)
+   */
+  programs: CommandCount[];
+  /**
+   * Commands grouped by the full command line
+   */
+  commands: CommandCount[];
+}
+
+export interface TopCommandsOptions extends Period {
+  limit: number;
+}
+
+export interface SubcommandCount {
+  subcommand: string;
+  count: number;
+}
+
+export interface SubcommandStats {
+  program: string;
+  subcommands: SubcommandCount[];
+  /**
+   * Number of times the program was run per day
+   */
+  daily: DailyCommandCount[];
+}
+
+export interface SubcommandOptions extends Period {
+  program: string;
+  limit: number;
+}
+
+export interface DailyFailureCount extends DailyCommandCount {
+  failed: number;
+}
+
+export interface FailingCommand {
+  command: string;
+  count: number;
+  failed: number;
+  failureRate: number;
+}
+
+export interface FailureStats {
+  /**
+   * Number of commands with a known exit status
+   */
+  total: number;
+  failed: number;
+  failureRate: number;
+  daily: DailyFailureCount[];
+  /**
+   * Commands ranked by the number of times they failed
+   */
+  commands: FailingCommand[];
+}
+
+export interface FailureOptions extends Period {
+  limit: number;
+}
+
+/**
+ * Duration statistics for a single day, all durations are in milliseconds
+ */
+export interface DailyDurationStats {
+  date: string;
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  total: number;
+}
+
+/**
+ * Durations are in milliseconds
+ */
+export interface CommandDuration {
+  command: string;
+  count: number;
+  average: number;
+  total: number;
+}
+
+export interface DurationStats {
+  daily: DailyDurationStats[];
+  /**
+   * Full command lines ranked by their average duration
+   */
+  commands: CommandDuration[];
+  /**
+   * Programs (the first word of the command) ranked by their average duration
+   */
+  programs: CommandDuration[];
+}
+
+export interface DurationOptions extends Period {
+  limit: number;
+}
+
+export interface HostStats {
+  host: string;
+  total: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export interface DirectoryCount {
+  directory: string;
+  count: number;
+}
+
+export interface DirectoryOptions extends Period {
+  limit: number;
+  /**
+   * Roll directories up to this many path segments
+   */
+  depth?: number;
+  /**
+   * Roll directories up to the root of the git repository they are within
+   */
+  gitRoot?: boolean;
 }
 
 export interface Stats {
@@ -30,61 +271,609 @@ export interface Stats {
  * Returns both UTC timestamps and timezone-converted timestamps
  * - ts_utc: Raw UTC timestamp
  * - ts_tz: Timestamp converted to timezone $1 (for date/hour bucketing)
+ * - command: The command line (NULL for store records)
+ * - exit: The exit code of the command (NULL for store records)
+ * - duration: How long the command ran in nanoseconds (NULL for store records)
+ * - host: The hostname for history records, or the host id for store records
+ * - user_id: The id of the user the command belongs to
+ * - cwd: The directory the command was run in (NULL for store records)
+ * - session: The terminal session the command was run in (NULL for store records)
+ *
+ * When an encryption key is configured the store table is left out, its
+ * records are decrypted in process instead and merged into the results of
+ * each query (see getStoreCommands).
  */
+const STORE_HISTORY = `
+    UNION ALL
+
+    -- New store table (timestamps are in nanoseconds, convert to seconds)
+    -- Record data is encrypted, so command level columns are unavailable
+    SELECT
+      to_timestamp(timestamp / 1000000000.0) as ts_utc,
+      to_timestamp(timestamp / 1000000000.0) AT TIME ZONE $1 as ts_tz,
+      NULL::text as command,
+      NULL::integer as exit,
+      NULL::bigint as duration,
+      host_id::text as host,
+      user_id,
+      NULL::text as cwd,
+      NULL::text as session
+    FROM store
+    WHERE tag = 'history'
+`;
+
 const COMBINED_CTE = `
   WITH combined AS (
     -- Old history table
     SELECT
       timestamp as ts_utc,
-      timestamp AT TIME ZONE $1 as ts_tz
+      timestamp AT TIME ZONE $1 as ts_tz,
+      command,
+      exit,
+      duration,
+      hostname as host,
+      user_id,
+      cwd,
+      session
     FROM history
     WHERE deleted_at IS NULL
+    ${encryptionKey ? '' : STORE_HISTORY}
+  )
+`;
 
-    UNION ALL
+/**
+ * A record store history entry. Command level fields are null for records
+ * which could not be decrypted.
+ */
+interface StoreEntry {
+  historyId: string | null;
+  timestamp: Date;
+  host: string;
+  userId: string;
+  command: string | null;
+  exit: number | null;
+  /**
+   * How long the command ran in nanoseconds
+   */
+  duration: number | null;
+  cwd: string | null;
+  session: string | null;
+  deleted: boolean;
+}
 
-    -- New store table (timestamps are in nanoseconds, convert to seconds)
+/**
+ * A record store command within the period being queried, with the columns of
+ * the combined CTE
+ */
+interface StoreCommand extends StoreEntry {
+  /**
+   * The timestamp in the requested timezone
+   */
+  local: Temporal.PlainDateTime;
+  date: string;
+}
+
+/**
+ * Decrypted record store history, keyed by record id. Records are immutable
+ * so they are only ever decrypted once, and the decrypted history is never
+ * sent back to the database.
+ */
+const storeEntries = new Map<string, StoreEntry>();
+
+/**
+ * History ids deleted by delete records, keyed by the id of the delete record
+ */
+const deleteRecords = new Map<string, string>();
+
+let deletedHistoryIds = new Set<string>();
+let pendingRefresh: Promise<void> | null = null;
+
+/**
+ * Decrypt the store history records which have not been seen yet. Records
+ * are tracked by id, so records committed late are still picked up. Only
+ * reads from the database.
+ */
+async function refreshStoreEntries(client: PoolClient, key: Uint8Array) {
+  const countResult = await client.queryObject<{count: number}>(
+    `SELECT COUNT(*) as count FROM store WHERE tag = 'history'`
+  );
+
+  // Records are only ever added or removed, so the ids only need to be
+  // compared when the number of records changed
+  if (Number(countResult.rows[0].count) === storeEntries.size + deleteRecords.size) {
+    return;
+  }
+
+  const idsResult = await client.queryObject<{id: string}>(
+    `SELECT id::text FROM store WHERE tag = 'history'`
+  );
+  const ids = new Set(idsResult.rows.map(row => row.id));
+
+  for (const records of [storeEntries, deleteRecords]) {
+    for (const id of records.keys()) {
+      if (!ids.has(id)) {
+        records.delete(id);
+      }
+    }
+  }
+
+  const newIds = Array.from(ids).filter(
+    id => !storeEntries.has(id) && !deleteRecords.has(id)
+  );
+
+  const result = await client.queryObject<{
+    id: string;
+    idx: number | bigint;
+    host: string;
+    user_id: string;
+    version: string;
+    tag: string;
+    data: string | Uint8Array;
+    cek: string;
+    timestamp: Date;
+  }>(
+    `
     SELECT
-      to_timestamp(timestamp / 1000000000.0) as ts_utc,
-      to_timestamp(timestamp / 1000000000.0) AT TIME ZONE $1 as ts_tz
+      id::text,
+      idx,
+      host_id::text as host,
+      user_id::text,
+      version,
+      tag,
+      data,
+      cek,
+      to_timestamp(timestamp / 1000000000.0) as timestamp
     FROM store
-    WHERE tag = 'history'
-  )
-`;
+    WHERE id = ANY($1::uuid[])
+  `,
+    [newIds]
+  );
+
+  let failures = 0;
+
+  for (const row of result.rows) {
+    const entry: StoreEntry = {
+      historyId: null,
+      timestamp: row.timestamp,
+      host: row.host,
+      userId: row.user_id,
+      command: null,
+      exit: null,
+      duration: null,
+      cwd: null,
+      session: null,
+      deleted: false,
+    };
+
+    let record;
+    try {
+      const contents = decryptRecord(
+        {
+          id: row.id,
+          idx: Number(row.idx),
+          host: row.host,
+          version: row.version,
+          tag: row.tag,
+          data:
+            typeof row.data === 'string' ? row.data : new TextDecoder().decode(row.data),
+          cek: row.cek,
+        },
+        key
+      );
+      record = decodeHistoryRecord(contents);
+    } catch {
+      // Records which could not be decrypted still count as commands
+      storeEntries.set(row.id, entry);
+      failures++;
+      continue;
+    }
+
+    // Delete records are not commands themselves, they mark the history entry
+    // they reference as deleted
+    if (record.type === 'delete') {
+      deleteRecords.set(row.id, record.id);
+      continue;
+    }
+
+    const {history} = record;
+    storeEntries.set(row.id, {
+      ...entry,
+      historyId: history.id,
+      command: history.command,
+      exit: history.exit,
+      duration: history.duration,
+      cwd: history.cwd,
+      session: history.session,
+      deleted: history.deletedAt !== null,
+    });
+  }
+
+  // Deletes may be seen before or after the entry they delete
+  deletedHistoryIds = new Set(deleteRecords.values());
+
+  if (failures > 0) {
+    console.warn(`Failed to decrypt ${failures} record store history records`);
+  }
+}
+
+/**
+ * Get the record store commands within the given period. These are only
+ * available when an encryption key is configured, otherwise store records
+ * are part of the combined CTE.
+ */
+async function getStoreCommands(
+  client: PoolClient,
+  opts: Period
+): Promise<StoreCommand[]> {
+  if (!encryptionKey) {
+    return [];
+  }
+
+  // Concurrent requests share a single refresh
+  if (!pendingRefresh) {
+    pendingRefresh = refreshStoreEntries(client, encryptionKey).finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  await pendingRefresh;
+
+  const {startDate, endDate, timezone, status, hosts, user, cwd} = opts;
+
+  let userIds: Set<string> | null = null;
+  if (user) {
+    const result = await client.queryObject<{id: string}>(
+      `SELECT id::text FROM users WHERE id::text = $1 OR username = $1`,
+      [user]
+    );
+    userIds = new Set(result.rows.map(row => row.id));
+  }
+
+  const directoryFilter = cwd ? getDirectoryFilter(cwd) : null;
+
+  const commands: StoreCommand[] = [];
+
+  for (const entry of storeEntries.values()) {
+    if (entry.deleted || (entry.historyId && deletedHistoryIds.has(entry.historyId))) {
+      continue;
+    }
+
+    // Negative exit codes are recorded by Atuin when the exit status is unknown
+    if (status === 'success' && entry.exit !== 0) {
+      continue;
+    }
+    if (status === 'failed' && !(entry.exit !== null && entry.exit > 0)) {
+      continue;
+    }
+
+    if (hosts && hosts.length > 0 && !hosts.includes(entry.host)) {
+      continue;
+    }
+    if (userIds && !userIds.has(entry.userId)) {
+      continue;
+    }
+    if (directoryFilter) {
+      const {directory, prefix} = directoryFilter;
+      if (
+        entry.cwd === null ||
+        !(entry.cwd === directory || entry.cwd.startsWith(prefix))
+      ) {
+        continue;
+      }
+    }
+
+    const local = Temporal.Instant.fromEpochMilliseconds(entry.timestamp.getTime())
+      .toZonedDateTimeISO(timezone)
+      .toPlainDateTime();
+    const date = local.toPlainDate().toString();
+
+    if ((startDate && date < startDate) || (endDate && date > endDate)) {
+      continue;
+    }
+
+    commands.push({...entry, local, date});
+  }
+
+  return commands;
+}
+
+/**
+ * Trim the spaces surrounding a command line, like Postgres' btrim
+ */
+function btrim(value: string): string {
+  return value.replace(/^ +| +$/g, '');
+}
+
+interface ProgramTotals {
+  count: number;
+  total: number;
+}
+
+interface CommandTotals extends ProgramTotals {
+  command: string;
+}
+
+/**
+ * Sum the counts (and totals) of full command lines by the program each runs,
+ * adding them to the given totals. Programs are found by the same shell
+ * tokenizer used for subcommands, so wrappers such as `sudo` and leading
+ * variable assignments are skipped.
+ */
+function sumByProgram(
+  rows: Array<{command: string; count: number; total?: number}>,
+  totals = new Map<string, ProgramTotals>()
+): Map<string, ProgramTotals> {
+  for (const row of rows) {
+    const program = findProgram(row.command);
+    if (program === null) {
+      continue;
+    }
+
+    const current = totals.get(program) ?? {count: 0, total: 0};
+    current.count += Number(row.count);
+    current.total += Number(row.total ?? 0);
+    totals.set(program, current);
+  }
+
+  return totals;
+}
+
+/**
+ * The first word of a command line, up to the first whitespace
+ */
+const FIRST_WORD = `substring(btrim(command) from '^\\S+')`;
+
+/**
+ * Get the count (and the `total` aggregate) of the commands matching the
+ * conditions by the program each runs.
+ *
+ * Commands are grouped by their first word in SQL, which is the program for
+ * most of them. Only the command lines whose first word isn't the program
+ * (see `isProgramWord`) are fetched to be run through the shell tokenizer.
+ */
+async function getProgramTotals(
+  client: PoolClient,
+  conditions: string,
+  params: unknown[],
+  total = '0'
+): Promise<Map<string, ProgramTotals>> {
+  const wordsQuery = `
+    ${COMBINED_CTE}
+    SELECT
+      ${FIRST_WORD} as word,
+      COUNT(*) as count,
+      ${total} as total
+    FROM combined
+    WHERE ${conditions}
+    GROUP BY 1
+  `;
+
+  const wordsResult = await client.queryObject<{
+    word: string;
+    count: number;
+    total: number;
+  }>(wordsQuery, params);
+
+  const totals = new Map<string, ProgramTotals>();
+  const words: string[] = [];
+
+  for (const row of wordsResult.rows) {
+    if (isProgramWord(row.word)) {
+      totals.set(row.word, {count: Number(row.count), total: Number(row.total)});
+    } else {
+      words.push(row.word);
+    }
+  }
+
+  if (words.length === 0) {
+    return totals;
+  }
+
+  const linesParams = [...params, words];
+  const linesQuery = `
+    ${COMBINED_CTE}
+    SELECT
+      btrim(command) as command,
+      COUNT(*) as count,
+      ${total} as total
+    FROM combined
+    WHERE ${conditions} AND ${FIRST_WORD} = ANY($${linesParams.length})
+    GROUP BY 1
+  `;
+
+  const linesResult = await client.queryObject<CommandTotals>(linesQuery, linesParams);
+
+  return sumByProgram(linesResult.rows, totals);
+}
 
 /**
- * Get the count of commands run per day within a date range
+ * Convert a UTC timestamp to a timezone-aware ISO 8601 string
  */
-export async function getCommandsPerDay(opts: Period): Promise<DailyCommandCount[]> {
-  const {startDate, endDate, timezone} = opts;
+function toZonedString(date: Date, timezone: string): string {
+  const instant = Temporal.Instant.from(date.toISOString());
+  return instant.toZonedDateTimeISO(timezone).toString({timeZoneName: 'never'});
+}
+
+/**
+ * Get the directory a cwd filter matches, along with the prefix its
+ * subdirectories start with
+ */
+function getDirectoryFilter(cwd: string): {directory: string; prefix: string} {
+  const directory = cwd.length > 1 ? cwd.replace(/\/+$/, '') : cwd;
+  const prefix = directory.endsWith('/') ? directory : `${directory}/`;
+  return {directory, prefix};
+}
+
+/**
+ * Build the conditions filtering the combined CTE down to the given period,
+ * appending the values they reference to params
+ */
+function buildPeriodFilter(opts: Period, params: unknown[]): string {
+  const {startDate, endDate, status, hosts, user, cwd} = opts;
+  let filter = '';
+
+  if (startDate) {
+    params.push(startDate);
+    filter += ` AND date(ts_tz) >= $${params.length}`;
+  }
+  if (endDate) {
+    params.push(endDate);
+    filter += ` AND date(ts_tz) <= $${params.length}`;
+  }
+
+  // Negative exit codes are recorded by Atuin when the exit status is unknown
+  if (status === 'success') {
+    filter += ` AND exit = 0`;
+  }
+  if (status === 'failed') {
+    filter += ` AND exit > 0`;
+  }
+
+  if (hosts && hosts.length > 0) {
+    params.push(hosts);
+    filter += ` AND host = ANY($${params.length})`;
+  }
+
+  if (user) {
+    params.push(user);
+    filter += ` AND user_id IN (
+      SELECT id FROM users WHERE id::text = $${params.length} OR username = $${params.length}
+    )`;
+  }
+
+  if (cwd) {
+    const {directory, prefix} = getDirectoryFilter(cwd);
+    params.push(directory, prefix);
+    filter += ` AND (cwd = $${params.length - 1} OR starts_with(cwd, $${params.length}))`;
+  }
+
+  return filter;
+}
+
+/**
+ * Build the SQL expression for the start of the bucket each command falls in,
+ * formatted as a date, or as a date and time for hourly buckets
+ */
+function buildBucketExpression(
+  granularity: HistoryGranularity,
+  weekStart: Weekday,
+  params: unknown[]
+): string {
+  switch (granularity) {
+    case 'hour':
+      return `to_char(date_trunc('hour', ts_tz), 'YYYY-MM-DD"T"HH24:MI:SS')`;
+    case 'week':
+      // Step back to the most recent week start day
+      params.push(WEEKDAYS.indexOf(weekStart));
+      return `to_char(
+        date(ts_tz) - ((EXTRACT(DOW FROM ts_tz)::integer - $${params.length}::integer + 7) % 7),
+        'YYYY-MM-DD'
+      )`;
+    case 'month':
+    case 'year':
+      return `to_char(date_trunc('${granularity}', ts_tz), 'YYYY-MM-DD')`;
+    default:
+      return `to_char(date(ts_tz), 'YYYY-MM-DD')`;
+  }
+}
+
+/**
+ * Get the start of the bucket a store command falls in, formatted the same
+ * way as the expression from buildBucketExpression
+ */
+function getBucket(
+  local: Temporal.PlainDateTime,
+  granularity: HistoryGranularity,
+  weekStart: Weekday
+): string {
+  const date = local.toPlainDate();
+  switch (granularity) {
+    case 'hour':
+      return local
+        .round({smallestUnit: 'hour', roundingMode: 'floor'})
+        .toString({smallestUnit: 'second'});
+    case 'week':
+      return date
+        .subtract({days: ((date.dayOfWeek % 7) - WEEKDAYS.indexOf(weekStart) + 7) % 7})
+        .toString();
+    case 'month':
+      return date.with({day: 1}).toString();
+    case 'year':
+      return date.with({month: 1, day: 1}).toString();
+    default:
+      return date.toString();
+  }
+}
+
+/**
+ * Get the count of commands run per day within a date range. When the metric
+ * is `duration` the count is the total milliseconds spent running commands.
+ *
+ * Commands may instead be bucketed by hour, week, month or year using the
+ * `granularity` option, in which case `date` is the start of each bucket.
+ */
+export async function getCommandsPerDay(
+  opts: HistoryOptions
+): Promise<DailyCommandCount[]> {
+  const {
+    timezone,
+    startDate,
+    endDate,
+    metric = 'count',
+    granularity = 'day',
+    weekStart = DEFAULT_WEEK_START,
+    fill,
+  } = opts;
   const client = await pool.connect();
   try {
-    let query = `
+    // Atuin records a negative duration when it is unknown
+    const aggregate = metric === 'duration' ? 'SUM(duration) / 1000000.0' : 'COUNT(*)';
+    const metricFilter = metric === 'duration' ? 'duration >= 0' : '1=1';
+
+    const params: unknown[] = [timezone];
+    const periodFilter = buildPeriodFilter(opts, params);
+    const bucket = buildBucketExpression(granularity, weekStart, params);
+
+    const query = `
       ${COMBINED_CTE}
       SELECT
-        date(ts_tz) as date,
-        COUNT(*) as count
+        ${bucket} as date,
+        ${aggregate} as count
       FROM combined
-      WHERE 1=1
+      WHERE ${metricFilter} ${periodFilter}
+      GROUP BY date
+      ORDER BY date
     `;
-    const params: string[] = [timezone];
 
-    if (startDate) {
-      params.push(startDate);
-      query += ` AND date(ts_tz) >= $${params.length}`;
-    }
-    if (endDate) {
-      params.push(endDate);
-      query += ` AND date(ts_tz) <= $${params.length}`;
+    const result = await client.queryObject<{date: string; count: number}>(query, params);
+    const storeCommands = await getStoreCommands(client, opts);
+
+    const counts = new Map(result.rows.map(row => [row.date, Number(row.count)]));
+    for (const command of storeCommands) {
+      let value = 1;
+      if (metric === 'duration') {
+        if (command.duration === null || command.duration < 0) {
+          continue;
+        }
+        value = command.duration / 1000000;
+      }
+      const date = getBucket(command.local, granularity, weekStart);
+      counts.set(date, (counts.get(date) ?? 0) + value);
     }
 
-    query += ` GROUP BY date(ts_tz) ORDER BY date`;
+    const data = Array.from(counts, ([date, count]) => ({
+      date,
+      count: Math.round(count),
+    })).sort((a, b) => a.date.localeCompare(b.date));
 
-    const result = await client.queryObject<{date: Date; count: number}>(query, params);
+    if (fill === 'zero') {
+      return fillEmptyBuckets(data, granularity, {
+        startDate,
+        endDate: endDate ?? Temporal.Now.plainDateISO(timezone).toString(),
+        weekStart,
+      });
+    }
 
-    return result.rows.map(row => ({
-      date: row.date.toISOString().split('T')[0],
-      count: Number(row.count),
-    }));
+    return granularity === 'day' ? data : fillEmptyBuckets(data, granularity);
   } finally {
     client.release();
   }
@@ -94,7 +883,7 @@ export async function getCommandsPerDay(opts: Period): Promise<DailyCommandCount
  * Get statistics including total command count and last command timestamp
  */
 export async function getStats(opts: Period): Promise<Stats> {
-  const {startDate, endDate, timezone} = opts;
+  const {timezone} = opts;
   const client = await pool.connect();
   try {
     let query = `
@@ -105,104 +894,866 @@ export async function getStats(opts: Period): Promise<Stats> {
       FROM combined
       WHERE 1=1
     `;
-    const params: string[] = [timezone];
-
-    if (startDate) {
-      params.push(startDate);
-      query += ` AND date(ts_tz) >= $${params.length}`;
-    }
-    if (endDate) {
-      params.push(endDate);
-      query += ` AND date(ts_tz) <= $${params.length}`;
-    }
+    const params: unknown[] = [timezone];
+    query += buildPeriodFilter(opts, params);
 
     const result = await client.queryObject<{
       total: number;
       last_command_at: Date | null;
     }>(query, params);
+    const storeCommands = await getStoreCommands(client, opts);
+
+    let total = Number(result.rows[0].total);
+    let last = result.rows[0].last_command_at;
+    for (const command of storeCommands) {
+      total++;
+      if (last === null || command.timestamp > last) {
+        last = command.timestamp;
+      }
+    }
 
     // Convert UTC timestamp to timezone-aware ISO 8601 string
     let lastCommandAt: string | undefined;
-    if (result.rows[0].last_command_at) {
-      const instant = Temporal.Instant.from(result.rows[0].last_command_at.toISOString());
-      const zdt = instant.toZonedDateTimeISO(timezone);
-      lastCommandAt = zdt.toString({timeZoneName: 'never'});
+    if (last) {
+      lastCommandAt = toZonedString(last, timezone);
     }
 
-    return {
-      total: Number(result.rows[0].total),
-      lastCommandAt,
-    };
+    return {total, lastCommandAt};
   } finally {
     client.release();
   }
 }
 
+interface HourlyCount {
+  date: string;
+  hour: number;
+  count: number;
+}
+
 /**
- * Get average commands per hour of day (0-23)
- * Returns an array of 24 numbers representing the average number of commands
- * per day for each hour. For example, if you ran 50 commands at 9am over 10 days,
- * the value at index 9 would be 5.0
+ * Count the commands run in each hour of each day of the period
  */
-export async function getTimeOfDayStats(opts: Period): Promise<TimeOfDayStats> {
-  const {startDate, endDate, timezone} = opts;
+async function getHourlyCounts(client: PoolClient, opts: Period): Promise<HourlyCount[]> {
+  const params: unknown[] = [opts.timezone];
+  const periodFilter = buildPeriodFilter(opts, params);
+
+  const query = `
+    ${COMBINED_CTE}
+    SELECT
+      date(ts_tz) as date,
+      EXTRACT(HOUR FROM ts_tz)::integer as hour,
+      COUNT(*) as count
+    FROM combined
+    WHERE 1=1 ${periodFilter}
+    GROUP BY date(ts_tz), EXTRACT(HOUR FROM ts_tz)
+  `;
+
+  const result = await client.queryObject<{date: Date; hour: number; count: number}>(
+    query,
+    params
+  );
+  const storeCommands = await getStoreCommands(client, opts);
+
+  const counts = new Map<string, HourlyCount>();
+  const add = (date: string, hour: number, count: number) => {
+    const key = `${date}T${hour}`;
+    const current = counts.get(key) ?? {date, hour, count: 0};
+    current.count += count;
+    counts.set(key, current);
+  };
+
+  for (const row of result.rows) {
+    add(row.date.toISOString().split('T')[0], row.hour, Number(row.count));
+  }
+  for (const command of storeCommands) {
+    add(command.date, command.local.hour, 1);
+  }
+
+  return Array.from(counts.values());
+}
+
+/**
+ * Round an average to two decimal places
+ */
+function roundAverage(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Get the continuous percentile of sorted values, interpolating between the
+ * closest values in the same way as Postgres' percentile_cont
+ */
+function percentile(sorted: number[], fraction: number): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+  const position = fraction * (sorted.length - 1);
+  const lower = sorted[Math.floor(position)];
+  const upper = sorted[Math.ceil(position)];
+  return lower + (upper - lower) * (position - Math.floor(position));
+}
+
+/**
+ * Get average commands per hour of day (0-23)
+ * Returns an array of 24 numbers representing the average number of commands
+ * per day for each hour. For example, if you ran 50 commands at 9am over 10 days,
+ * the value at index 9 would be 5.0
+ */
+export async function getTimeOfDayStats(opts: Period): Promise<TimeOfDayStats> {
   const client = await pool.connect();
   try {
-    // Build WHERE clause params for date filtering
-    const params: string[] = [timezone];
-    let dateFilter = '';
+    const counts = await getHourlyCounts(client, opts);
+    const totalDays = new Set(counts.map(row => row.date)).size;
+
+    // Initialize array with 0s for all 24 hours
+    const hourly = new Array(24).fill(0);
 
-    if (startDate) {
-      params.push(startDate);
-      dateFilter += ` AND date(ts_tz) >= $${params.length}`;
+    for (const row of counts) {
+      hourly[row.hour] += row.count;
     }
-    if (endDate) {
-      params.push(endDate);
-      dateFilter += ` AND date(ts_tz) <= $${params.length}`;
+
+    return {
+      hourly: hourly.map(count => (totalDays > 0 ? roundAverage(count / totalDays) : 0)),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get average commands per hour of day (0-23) for each day of the week (0-6,
+ * starting with Sunday). Each average is taken over the days of that weekday
+ * with at least one command. For example, if you ran 30 commands at 9am over
+ * 10 Mondays, the value at [1][9] would be 3.0
+ */
+export async function getPunchcardStats(opts: Period): Promise<PunchcardStats> {
+  const client = await pool.connect();
+  try {
+    const counts = await getHourlyCounts(client, opts);
+
+    const activeDays = Array.from({length: 7}, () => new Set<string>());
+    const days = Array.from({length: 7}, () => new Array(24).fill(0));
+
+    for (const row of counts) {
+      const dow = Temporal.PlainDate.from(row.date).dayOfWeek % 7;
+      activeDays[dow].add(row.date);
+      days[dow][row.hour] += row.count;
     }
 
-    // Query to get average commands per hour across all days, combining both tables
+    return {
+      days: days.map((hours, dow) =>
+        hours.map(count => (count > 0 ? roundAverage(count / activeDays[dow].size) : 0))
+      ),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get terminal session statistics: sessions started per day, the median
+ * session length and number of commands per session, and the longest
+ * sessions. Sessions are attributed to the day their first command ran.
+ */
+export async function getSessionStats(opts: SessionOptions): Promise<SessionStats> {
+  const {timezone, limit} = opts;
+  const client = await pool.connect();
+  try {
+    const params: unknown[] = [timezone];
+    const periodFilter = buildPeriodFilter(opts, params);
+
     const query = `
-      ${COMBINED_CTE},
-      day_count AS (
-        SELECT COUNT(DISTINCT date(ts_tz)) as total_days
-        FROM combined
-        WHERE 1=1 ${dateFilter}
+      ${COMBINED_CTE}
+      SELECT
+        session,
+        MIN(ts_utc) as started_at,
+        MAX(ts_utc) as ended_at,
+        COUNT(*) as commands
+      FROM combined
+      WHERE session IS NOT NULL ${periodFilter}
+      GROUP BY session
+    `;
+
+    const result = await client.queryObject<{
+      session: string;
+      started_at: Date;
+      ended_at: Date;
+      commands: number;
+    }>(query, params);
+    const storeCommands = await getStoreCommands(client, opts);
+
+    const sessions = new Map(
+      result.rows.map(row => [
+        row.session,
+        {
+          startedAt: row.started_at,
+          endedAt: row.ended_at,
+          commands: Number(row.commands),
+        },
+      ])
+    );
+
+    for (const command of storeCommands) {
+      if (command.session === null) {
+        continue;
+      }
+      const session = sessions.get(command.session);
+      if (!session) {
+        sessions.set(command.session, {
+          startedAt: command.timestamp,
+          endedAt: command.timestamp,
+          commands: 1,
+        });
+        continue;
+      }
+      if (command.timestamp < session.startedAt) {
+        session.startedAt = command.timestamp;
+      }
+      if (command.timestamp > session.endedAt) {
+        session.endedAt = command.timestamp;
+      }
+      session.commands++;
+    }
+
+    const summaries = Array.from(
+      sessions,
+      ([session, {startedAt, endedAt, commands}]) => ({
+        session,
+        startedAt,
+        endedAt,
+        duration: (endedAt.getTime() - startedAt.getTime()) / 1000,
+        commands,
+      })
+    );
+
+    const dailyCounts = new Map<string, number>();
+    for (const summary of summaries) {
+      const date = toZonedString(summary.startedAt, timezone).split('T')[0];
+      dailyCounts.set(date, (dailyCounts.get(date) ?? 0) + 1);
+    }
+
+    const sorted = (values: number[]) => values.sort((a, b) => a - b);
+    const durations = sorted(summaries.map(summary => summary.duration));
+    const commands = sorted(summaries.map(summary => summary.commands));
+    const totalCommands = commands.reduce((sum, count) => sum + count, 0);
+
+    return {
+      total: summaries.length,
+      daily: Array.from(dailyCounts, ([date, count]) => ({date, count})).sort((a, b) =>
+        a.date.localeCompare(b.date)
       ),
-      hourly_counts AS (
-        SELECT
-          EXTRACT(HOUR FROM ts_tz)::integer as hour,
-          COUNT(*) as count
-        FROM combined
-        WHERE 1=1 ${dateFilter}
-        GROUP BY EXTRACT(HOUR FROM ts_tz)
-      )
+      medianDuration: roundAverage(percentile(durations, 0.5) ?? 0),
+      medianCommands: roundAverage(percentile(commands, 0.5) ?? 0),
+      averageCommands: roundAverage(
+        summaries.length > 0 ? totalCommands / summaries.length : 0
+      ),
+      longest: summaries
+        .sort(
+          (a, b) =>
+            b.duration - a.duration || a.startedAt.getTime() - b.startedAt.getTime()
+        )
+        .slice(0, limit)
+        .map(summary => ({
+          session: summary.session,
+          startedAt: toZonedString(summary.startedAt, timezone),
+          endedAt: toZonedString(summary.endedAt, timezone),
+          duration: summary.duration,
+          commands: summary.commands,
+        })),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the most frequently run commands, ranked both by program (the program
+ * the command line runs, see `findProgram`) and by the full command line
+ */
+export async function getTopCommands(opts: TopCommandsOptions): Promise<TopCommands> {
+  const {timezone, limit} = opts;
+  const client = await pool.connect();
+  try {
+    const params: unknown[] = [timezone];
+    const periodFilter = buildPeriodFilter(opts, params);
+    const conditions = `command IS NOT NULL AND btrim(command) <> '' ${periodFilter}`;
+
+    const storeCommands = (await getStoreCommands(client, opts)).flatMap(({command}) => {
+      const line = btrim(command ?? '');
+      return line !== '' ? [{command: line, count: 1}] : [];
+    });
+
+    // Store commands may change the ranking, in which case every command is
+    // needed to merge them into it
+    const commandsParams = [...params];
+    let ranking = '';
+    if (storeCommands.length === 0) {
+      commandsParams.push(limit);
+      ranking = `ORDER BY count DESC, command LIMIT $${commandsParams.length}`;
+    }
+
+    const commandsQuery = `
+      ${COMBINED_CTE}
+      SELECT
+        btrim(command) as command,
+        COUNT(*) as count
+      FROM combined
+      WHERE ${conditions}
+      GROUP BY 1
+      ${ranking}
+    `;
+
+    const commandsResult = await client.queryObject<{command: string; count: number}>(
+      commandsQuery,
+      commandsParams
+    );
+    const programs = sumByProgram(
+      storeCommands,
+      await getProgramTotals(client, conditions, params)
+    );
+
+    const counts = new Map(
+      commandsResult.rows.map(row => [row.command, Number(row.count)])
+    );
+    for (const {command} of storeCommands) {
+      counts.set(command, (counts.get(command) ?? 0) + 1);
+    }
+
+    // Rank the most frequent, breaking ties alphabetically
+    const rankByCount = (totals: Iterable<[string, number]>) =>
+      Array.from(totals, ([command, count]) => ({command, count}))
+        .sort((a, b) => b.count - a.count || a.command.localeCompare(b.command))
+        .slice(0, limit);
+
+    return {
+      programs: rankByCount(
+        Array.from(programs, ([program, {count}]): [string, number] => [program, count])
+      ),
+      commands: rankByCount(counts),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the most frequently used subcommands of a single program (e.g. the
+ * `commit` in `git commit`), along with how often the program ran per day.
+ * Command lines are tokenized in a shell-aware way so that quoting, wrappers
+ * such as `sudo` and pipelines are handled.
+ */
+export async function getSubcommands(opts: SubcommandOptions): Promise<SubcommandStats> {
+  const {timezone, program, limit} = opts;
+  const client = await pool.connect();
+  try {
+    // Narrow down to commands mentioning the program, the shell tokenizer
+    // decides which of these actually run it
+    const params: unknown[] = [timezone, program];
+
+    let query = `
+      ${COMBINED_CTE}
       SELECT
-        hourly_counts.hour,
-        CASE
-          WHEN day_count.total_days > 0
-          THEN ROUND((hourly_counts.count::numeric / day_count.total_days), 2)
-          ELSE 0
-        END as avg_count
-      FROM hourly_counts
-      CROSS JOIN day_count
-      ORDER BY hourly_counts.hour
+        date(ts_tz) as date,
+        command,
+        COUNT(*) as count
+      FROM combined
+      WHERE command IS NOT NULL AND strpos(command, $${params.length}) > 0
     `;
+    query += buildPeriodFilter(opts, params);
 
-    const result = await client.queryObject<{hour: number; avg_count: number}>(
+    query += ` GROUP BY date(ts_tz), command ORDER BY date`;
+
+    const result = await client.queryObject<{date: Date; command: string; count: number}>(
       query,
       params
     );
+    const storeCommands = await getStoreCommands(client, opts);
 
-    // Initialize array with 0s for all 24 hours
-    const hourly = new Array(24).fill(0);
+    const rows = [
+      ...result.rows.map(row => ({
+        date: row.date.toISOString().split('T')[0],
+        command: row.command,
+        count: Number(row.count),
+      })),
+      ...storeCommands.flatMap(({date, command}) =>
+        command !== null && command.includes(program) ? [{date, command, count: 1}] : []
+      ),
+    ];
+
+    const subcommandCounts = new Map<string, number>();
+    const dailyCounts = new Map<string, number>();
+
+    for (const {date, command, count} of rows) {
+      const subcommands = findSubcommands(command, program);
+      if (subcommands.length === 0) {
+        continue;
+      }
+
+      dailyCounts.set(date, (dailyCounts.get(date) ?? 0) + subcommands.length * count);
+
+      for (const subcommand of subcommands) {
+        if (subcommand !== null) {
+          subcommandCounts.set(
+            subcommand,
+            (subcommandCounts.get(subcommand) ?? 0) + count
+          );
+        }
+      }
+    }
+
+    const subcommands = Array.from(subcommandCounts, ([subcommand, count]) => ({
+      subcommand,
+      count,
+    }))
+      .sort((a, b) => b.count - a.count || a.subcommand.localeCompare(b.subcommand))
+      .slice(0, limit);
+
+    const daily = Array.from(dailyCounts, ([date, count]) => ({date, count})).sort(
+      (a, b) => a.date.localeCompare(b.date)
+    );
+
+    return {program, subcommands, daily};
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get failure statistics based on command exit codes: the overall failure
+ * rate, failures per day and the commands which fail most often. Only
+ * commands with a known exit status are considered.
+ */
+export async function getFailureStats(opts: FailureOptions): Promise<FailureStats> {
+  const {timezone, limit} = opts;
+  const client = await pool.connect();
+  try {
+    const params: unknown[] = [timezone];
+    const periodFilter = buildPeriodFilter(opts, params);
+    const knownExit = `exit IS NOT NULL AND exit >= 0 ${periodFilter}`;
+
+    const dailyQuery = `
+      ${COMBINED_CTE}
+      SELECT
+        date(ts_tz) as date,
+        COUNT(*) as count,
+        COUNT(*) FILTER (WHERE exit > 0) as failed
+      FROM combined
+      WHERE ${knownExit}
+      GROUP BY date(ts_tz)
+      ORDER BY date
+    `;
+
+    const storeCommands = (await getStoreCommands(client, opts)).flatMap(
+      ({exit, ...command}) => (exit !== null && exit >= 0 ? [{...command, exit}] : [])
+    );
+
+    // Store commands may change the ranking, in which case every command is
+    // needed to merge them into it
+    const commandsParams = [...params];
+    let ranking = '';
+    if (storeCommands.length === 0) {
+      commandsParams.push(limit);
+      ranking = `
+        HAVING COUNT(*) FILTER (WHERE exit > 0) > 0
+        ORDER BY failed DESC, command
+        LIMIT $${commandsParams.length}
+      `;
+    }
+
+    const commandsQuery = `
+      ${COMBINED_CTE}
+      SELECT
+        btrim(command) as command,
+        COUNT(*) as count,
+        COUNT(*) FILTER (WHERE exit > 0) as failed
+      FROM combined
+      WHERE ${knownExit}
+      GROUP BY 1
+      ${ranking}
+    `;
+
+    const dailyResult = await client.queryObject<{
+      date: Date;
+      count: number;
+      failed: number;
+    }>(dailyQuery, params);
+    const commandsResult = await client.queryObject<{
+      command: string;
+      count: number;
+      failed: number;
+    }>(commandsQuery, commandsParams);
+
+    const failureRate = (failed: number, count: number) =>
+      count > 0 ? Math.round((failed / count) * 10000) / 10000 : 0;
+
+    type FailureCount = {count: number; failed: number};
+    const addCommand = (counts: Map<string, FailureCount>, key: string, exit: number) => {
+      const current = counts.get(key) ?? {count: 0, failed: 0};
+      current.count++;
+      current.failed += exit > 0 ? 1 : 0;
+      counts.set(key, current);
+    };
+
+    const dailyCounts = new Map<string, FailureCount>(
+      dailyResult.rows.map(row => [
+        row.date.toISOString().split('T')[0],
+        {count: Number(row.count), failed: Number(row.failed)},
+      ])
+    );
+    const commandCounts = new Map<string, FailureCount>(
+      commandsResult.rows.map(row => [
+        row.command,
+        {count: Number(row.count), failed: Number(row.failed)},
+      ])
+    );
+
+    for (const command of storeCommands) {
+      addCommand(dailyCounts, command.date, command.exit);
+      addCommand(commandCounts, btrim(command.command ?? ''), command.exit);
+    }
+
+    const daily = Array.from(dailyCounts, ([date, {count, failed}]) => ({
+      date,
+      count,
+      failed,
+    })).sort((a, b) => a.date.localeCompare(b.date));
+
+    const total = daily.reduce((sum, d) => sum + d.count, 0);
+    const failed = daily.reduce((sum, d) => sum + d.failed, 0);
+
+    const commands = Array.from(commandCounts, ([command, {count, failed}]) => ({
+      command,
+      count,
+      failed,
+      failureRate: failureRate(failed, count),
+    }))
+      .filter(command => command.failed > 0)
+      .sort((a, b) => b.failed - a.failed || a.command.localeCompare(b.command))
+      .slice(0, limit);
+
+    return {total, failed, failureRate: failureRate(failed, total), daily, commands};
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get command duration statistics: percentiles and total time per day, along
+ * with the slowest commands and programs. Durations are in milliseconds and
+ * only commands with a known duration are considered.
+ */
+export async function getDurationStats(opts: DurationOptions): Promise<DurationStats> {
+  const {timezone, limit} = opts;
+  const client = await pool.connect();
+  try {
+    const storeCommands = (await getStoreCommands(client, opts)).flatMap(
+      ({duration, ...command}) =>
+        duration !== null && duration >= 0 ? [{...command, duration}] : []
+    );
+
+    // Percentiles can't be merged, so the durations of days with store
+    // commands are fetched to take them over all of that day's commands
+    const storeDays = Array.from(new Set(storeCommands.map(command => command.date)));
+
+    const params: unknown[] = [timezone];
+    const periodFilter = buildPeriodFilter(opts, params);
+    const knownDuration = `duration IS NOT NULL AND duration >= 0 ${periodFilter}`;
+    const dailyParams = [...params, storeDays];
+
+    const dailyQuery = `
+      ${COMBINED_CTE}
+      SELECT
+        date(ts_tz) as date,
+        COUNT(*) as count,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY duration) / 1000000.0 as p50,
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY duration) / 1000000.0 as p90,
+        percentile_cont(0.99) WITHIN GROUP (ORDER BY duration) / 1000000.0 as p99,
+        SUM(duration) / 1000000.0 as total
+      FROM combined
+      WHERE ${knownDuration} AND date(ts_tz) <> ALL($${dailyParams.length}::date[])
+      GROUP BY date(ts_tz)
+    `;
+
+    const durationsQuery = `
+      ${COMBINED_CTE}
+      SELECT
+        date(ts_tz) as date,
+        duration
+      FROM combined
+      WHERE ${knownDuration} AND date(ts_tz) = ANY($${dailyParams.length}::date[])
+    `;
+
+    const commandConditions = `command IS NOT NULL AND btrim(command) <> '' AND ${knownDuration}`;
+    const commandTotal = 'SUM(duration) / 1000000.0';
+
+    // Store commands may change the ranking, in which case every command is
+    // needed to merge them into it
+    const commandsParams = [...params];
+    let ranking = '';
+    if (storeCommands.length === 0) {
+      commandsParams.push(limit);
+      ranking = `ORDER BY SUM(duration) / COUNT(*) DESC, command LIMIT $${commandsParams.length}`;
+    }
+
+    const commandsQuery = `
+      ${COMBINED_CTE}
+      SELECT
+        btrim(command) as command,
+        COUNT(*) as count,
+        ${commandTotal} as total
+      FROM combined
+      WHERE ${commandConditions}
+      GROUP BY 1
+      ${ranking}
+    `;
+
+    type DurationRow = {
+      date: Date;
+      count: number;
+      p50: number;
+      p90: number;
+      p99: number;
+      total: number;
+    };
+    type CommandRow = {command: string; count: number; total: number};
+
+    const dailyResult = await client.queryObject<DurationRow>(dailyQuery, dailyParams);
+    const durationsResult = await client.queryObject<{date: Date; duration: number}>(
+      durationsQuery,
+      dailyParams
+    );
+    const commandsResult = await client.queryObject<CommandRow>(
+      commandsQuery,
+      commandsParams
+    );
+    const programTotals = await getProgramTotals(
+      client,
+      commandConditions,
+      params,
+      commandTotal
+    );
+
+    const round = (value: number) => Math.round(Number(value) * 100) / 100;
+
+    const daily = dailyResult.rows.map(row => ({
+      date: row.date.toISOString().split('T')[0],
+      count: Number(row.count),
+      p50: round(row.p50),
+      p90: round(row.p90),
+      p99: round(row.p99),
+      total: round(row.total),
+    }));
+
+    const dayDurations = new Map<string, number[]>();
+    const addDuration = (date: string, duration: number) => {
+      const durations = dayDurations.get(date) ?? [];
+      durations.push(duration / 1000000);
+      dayDurations.set(date, durations);
+    };
+    for (const row of durationsResult.rows) {
+      addDuration(row.date.toISOString().split('T')[0], Number(row.duration));
+    }
+    for (const command of storeCommands) {
+      addDuration(command.date, command.duration);
+    }
+
+    for (const [date, durations] of dayDurations) {
+      durations.sort((a, b) => a - b);
+      daily.push({
+        date,
+        count: durations.length,
+        p50: round(percentile(durations, 0.5) ?? 0),
+        p90: round(percentile(durations, 0.9) ?? 0),
+        p99: round(percentile(durations, 0.99) ?? 0),
+        total: round(durations.reduce((sum, duration) => sum + duration, 0)),
+      });
+    }
+
+    const commandTotals = new Map<string, ProgramTotals>(
+      commandsResult.rows.map(row => [
+        row.command,
+        {count: Number(row.count), total: Number(row.total)},
+      ])
+    );
+    const storeTotals = storeCommands.flatMap(({command, duration}) => {
+      const line = btrim(command ?? '');
+      return line !== '' ? [{command: line, count: 1, total: duration / 1000000}] : [];
+    });
+    for (const {command, total} of storeTotals) {
+      const current = commandTotals.get(command) ?? {count: 0, total: 0};
+      current.count++;
+      current.total += total;
+      commandTotals.set(command, current);
+    }
+
+    // Rank the slowest on average, breaking ties alphabetically
+    const rankByAverage = (totals: Iterable<[string, ProgramTotals]>) =>
+      Array.from(totals, ([command, {count, total}]) => ({
+        command,
+        count,
+        average: round(total / count),
+        total: round(total),
+      }))
+        .sort((a, b) => b.average - a.average || a.command.localeCompare(b.command))
+        .slice(0, limit);
+
+    return {
+      daily: daily.sort((a, b) => a.date.localeCompare(b.date)),
+      commands: rankByAverage(commandTotals),
+      programs: rankByAverage(sumByProgram(storeTotals, programTotals)),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get each host commands were run on, with its total command count and when
+ * it was first and last seen
+ */
+export async function getHosts(opts: Period): Promise<HostStats[]> {
+  const {timezone} = opts;
+  const client = await pool.connect();
+  try {
+    let query = `
+      ${COMBINED_CTE}
+      SELECT
+        host,
+        COUNT(*) as total,
+        MIN(ts_utc) as first_seen_at,
+        MAX(ts_utc) as last_seen_at
+      FROM combined
+      WHERE 1=1
+    `;
+    const params: unknown[] = [timezone];
+    query += buildPeriodFilter(opts, params);
+    query += ` GROUP BY host ORDER BY total DESC, host`;
+
+    const result = await client.queryObject<{
+      host: string;
+      total: number;
+      first_seen_at: Date;
+      last_seen_at: Date;
+    }>(query, params);
+    const storeCommands = await getStoreCommands(client, opts);
+
+    const hosts = new Map(
+      result.rows.map(row => [
+        row.host,
+        {
+          total: Number(row.total),
+          firstSeenAt: row.first_seen_at,
+          lastSeenAt: row.last_seen_at,
+        },
+      ])
+    );
+
+    for (const {host, timestamp} of storeCommands) {
+      const current = hosts.get(host);
+      if (!current) {
+        hosts.set(host, {total: 1, firstSeenAt: timestamp, lastSeenAt: timestamp});
+        continue;
+      }
+      current.total++;
+      if (timestamp < current.firstSeenAt) {
+        current.firstSeenAt = timestamp;
+      }
+      if (timestamp > current.lastSeenAt) {
+        current.lastSeenAt = timestamp;
+      }
+    }
+
+    return Array.from(hosts, ([host, {total, firstSeenAt, lastSeenAt}]) => ({
+      host,
+      total,
+      firstSeenAt: toZonedString(firstSeenAt, timezone),
+      lastSeenAt: toZonedString(lastSeenAt, timezone),
+    })).sort((a, b) => b.total - a.total || a.host.localeCompare(b.host));
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Git subcommands which aren't run within the repository they act on
+ */
+const NON_REPOSITORY_SUBCOMMANDS = new Set(['clone', 'init']);
+
+/**
+ * Get the directories the most commands were run in. Directories may be
+ * rolled up to the git repository they are within, and to a maximum depth.
+ *
+ * Git repository roots are inferred from the directories `git` commands were
+ * run in, since the filesystem the commands ran on is not available. Commands
+ * which create a repository elsewhere (`git clone`) don't count.
+ */
+export async function getDirectories(opts: DirectoryOptions): Promise<DirectoryCount[]> {
+  const {timezone, limit, depth, gitRoot} = opts;
+  const client = await pool.connect();
+  try {
+    const params: unknown[] = [timezone];
+    const periodFilter = buildPeriodFilter(opts, params);
+
+    const query = `
+      ${COMBINED_CTE}
+      SELECT
+        cwd,
+        COUNT(*) as count
+      FROM combined
+      WHERE cwd IS NOT NULL ${periodFilter}
+      GROUP BY cwd
+    `;
+
+    // Narrow down to commands mentioning git, the shell tokenizer decides
+    // which of these actually run it and in which directory
+    const gitQuery = `
+      ${COMBINED_CTE}
+      SELECT DISTINCT
+        cwd,
+        btrim(command) as command
+      FROM combined
+      WHERE cwd IS NOT NULL AND strpos(command, 'git') > 0 ${periodFilter}
+    `;
+
+    const result = await client.queryObject<{cwd: string; count: number}>(query, params);
+    const gitResult = await client.queryObject<{cwd: string; command: string}>(
+      gitQuery,
+      params
+    );
+    const storeCommands = (await getStoreCommands(client, opts)).flatMap(
+      ({cwd, command}) => (cwd !== null ? [{cwd, command: btrim(command ?? '')}] : [])
+    );
+
+    const repositories = new Set<string>();
+    for (const row of [...gitResult.rows, ...storeCommands]) {
+      for (const command of parseCommandDirectories(row.command, row.cwd)) {
+        const subcommand = command.program === 'git' ? getSubcommand(command) : null;
+        if (subcommand !== null && !NON_REPOSITORY_SUBCOMMANDS.has(subcommand)) {
+          repositories.add(command.directory);
+        }
+      }
+    }
+
+    const cwdCounts = [
+      ...result.rows.map(row => ({cwd: row.cwd, count: Number(row.count)})),
+      ...storeCommands.map(({cwd}) => ({cwd, count: 1})),
+    ];
 
-    // Fill in the actual averages
-    for (const row of result.rows) {
-      hourly[row.hour] = Number(row.avg_count);
+    const counts = new Map<string, number>();
+    for (const row of cwdCounts) {
+      let directory = row.cwd;
+      if (gitRoot) {
+        directory = findRepositoryRoot(directory, repositories) ?? directory;
+      }
+      if (depth !== undefined) {
+        directory = truncatePath(directory, depth);
+      }
+      counts.set(directory, (counts.get(directory) ?? 0) + row.count);
     }
 
-    return {hourly};
+    return Array.from(counts, ([directory, count]) => ({directory, count}))
+      .sort((a, b) => b.count - a.count || a.directory.localeCompare(b.directory))
+      .slice(0, limit);
   } finally {
     client.release();
   }
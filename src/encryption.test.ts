@@ -0,0 +1,186 @@
+import {encode} from '@msgpack/msgpack';
+import {xchacha20} from '@noble/ciphers/chacha';
+import {blake2b} from '@noble/hashes/blake2b';
+import {assertEquals, assertThrows} from '@std/assert';
+
+import type {EncryptedRecord} from './encryption.ts';
+import {decodeHistoryRecord, decodeKey, decryptRecord} from './encryption.ts';
+
+const encoder = new TextEncoder();
+
+// Helpers implementing the encrypting side, mirroring what the Atuin client
+// does when it writes records to the store
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function concat(...arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
+
+function pae(...pieces: Uint8Array[]): Uint8Array {
+  const le64 = (n: number) => {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setBigUint64(0, BigInt(n), true);
+    return bytes;
+  };
+  return concat(le64(pieces.length), ...pieces.flatMap(p => [le64(p.length), p]));
+}
+
+function wrapKey(key: Uint8Array, wrappingKey: Uint8Array): string {
+  const header = 'k4.local-wrap.pie.';
+  const nonce = crypto.getRandomValues(new Uint8Array(32));
+  const derived = blake2b(concat(new Uint8Array([0x80]), nonce), {
+    key: wrappingKey,
+    dkLen: 56,
+  });
+  const ciphertext = xchacha20(derived.slice(0, 32), derived.slice(32), key);
+  const authKey = blake2b(concat(new Uint8Array([0x81]), nonce), {
+    key: wrappingKey,
+    dkLen: 32,
+  });
+  const tag = blake2b(concat(encoder.encode(header), nonce, ciphertext), {
+    key: authKey,
+    dkLen: 32,
+  });
+  return header + base64UrlEncode(concat(tag, nonce, ciphertext));
+}
+
+function encryptToken(message: Uint8Array, key: Uint8Array, implicit: string): string {
+  const header = 'v4.local.';
+  const nonce = crypto.getRandomValues(new Uint8Array(32));
+  const derived = blake2b(concat(encoder.encode('paseto-encryption-key'), nonce), {
+    key,
+    dkLen: 56,
+  });
+  const authKey = blake2b(concat(encoder.encode('paseto-auth-key-for-aead'), nonce), {
+    key,
+    dkLen: 32,
+  });
+  const ciphertext = xchacha20(derived.slice(0, 32), derived.slice(32), message);
+  const preAuth = pae(
+    encoder.encode(header),
+    nonce,
+    ciphertext,
+    new Uint8Array(),
+    encoder.encode(implicit)
+  );
+  const tag = blake2b(preAuth, {key: authKey, dkLen: 32});
+  return header + base64UrlEncode(concat(nonce, ciphertext, tag));
+}
+
+function encryptRecord(
+  contents: Uint8Array,
+  key: Uint8Array,
+  meta: Omit<EncryptedRecord, 'data' | 'cek'>
+): EncryptedRecord {
+  const cek = crypto.getRandomValues(new Uint8Array(32));
+  const assertions = JSON.stringify({
+    id: meta.id,
+    idx: meta.idx,
+    version: meta.version,
+    tag: meta.tag,
+    host: meta.host,
+  });
+  const payload = JSON.stringify({data: base64UrlEncode(contents)});
+
+  return {
+    ...meta,
+    data: encryptToken(encoder.encode(payload), cek, assertions),
+    cek: JSON.stringify({wpk: wrapKey(cek, key), kid: 'k4.lid.test'}),
+  };
+}
+
+function encodeHistoryCreate(fields: unknown[]): Uint8Array {
+  const history = concat(encode(0), encode(fields, {useBigInt64: true}));
+  return concat(encode(0), encode(history));
+}
+
+const key = Uint8Array.from({length: 32}, (_, i) => i);
+
+const meta = {
+  id: '018d2f0e-5c2a-7b1e-9a4c-3f2e1d0c0b0a',
+  idx: 42,
+  host: '55555555-5555-5555-5555-555555555555',
+  version: 'v0',
+  tag: 'history',
+};
+
+Deno.test('decodeKey decodes an Atuin key file', () => {
+  const encoded = btoa(String.fromCharCode(...encode(Array.from(key))));
+  assertEquals(decodeKey(`${encoded}\n`), key);
+});
+
+Deno.test('decodeKey rejects keys of the wrong length', () => {
+  const encoded = btoa(String.fromCharCode(...encode([1, 2, 3])));
+  assertThrows(() => decodeKey(encoded), Error, 'must be 32 bytes');
+});
+
+Deno.test('decryptRecord round trips record contents', () => {
+  const contents = encoder.encode('hello record store');
+  const record = encryptRecord(contents, key, meta);
+
+  assertEquals(decryptRecord(record, key), contents);
+});
+
+Deno.test('decryptRecord rejects the wrong key', () => {
+  const record = encryptRecord(encoder.encode('secret'), key, meta);
+  const wrongKey = new Uint8Array(32);
+
+  assertThrows(() => decryptRecord(record, wrongKey), Error, 'Failed to unwrap');
+});
+
+Deno.test('decryptRecord rejects tampered metadata', () => {
+  const record = encryptRecord(encoder.encode('secret'), key, meta);
+
+  assertThrows(
+    () => decryptRecord({...record, idx: 43}, key),
+    Error,
+    'Failed to authenticate'
+  );
+});
+
+Deno.test('decodeHistoryRecord decodes a history create', () => {
+  const bytes = encodeHistoryCreate([
+    'history-id',
+    1767258000000000000n,
+    1500000000,
+    1,
+    'git push',
+    '/home/user/project',
+    'session-id',
+    'laptop:user',
+    null,
+  ]);
+
+  assertEquals(decodeHistoryRecord(bytes), {
+    type: 'create',
+    history: {
+      id: 'history-id',
+      timestamp: 1767258000000000000n,
+      duration: 1500000000,
+      exit: 1,
+      command: 'git push',
+      cwd: '/home/user/project',
+      session: 'session-id',
+      hostname: 'laptop:user',
+      deletedAt: null,
+    },
+  });
+});
+
+Deno.test('decodeHistoryRecord decodes a history delete', () => {
+  const bytes = concat(encode(1), encode('history-id'));
+
+  assertEquals(decodeHistoryRecord(bytes), {type: 'delete', id: 'history-id'});
+});
@@ -0,0 +1,258 @@
+import {decode, decodeMulti} from '@msgpack/msgpack';
+import {xchacha20} from '@noble/ciphers/chacha';
+import {blake2b} from '@noble/hashes/blake2b';
+
+const PASETO_HEADER = 'v4.local.';
+const PASERK_WRAP_HEADER = 'k4.local-wrap.pie.';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * An encrypted record from Atuin's record store
+ */
+export interface EncryptedRecord {
+  id: string;
+  idx: number;
+  host: string;
+  version: string;
+  tag: string;
+  /**
+   * The PASETO v4.local token holding the record contents
+   */
+  data: string;
+  /**
+   * The content encryption key, wrapped with the user's key
+   */
+  cek: string;
+}
+
+/**
+ * A decoded history entry from the record store. Timestamps are in
+ * nanoseconds, as they are stored by Atuin.
+ */
+export interface DecryptedHistory {
+  id: string;
+  timestamp: bigint;
+  duration: number;
+  exit: number;
+  command: string;
+  cwd: string;
+  session: string;
+  hostname: string;
+  deletedAt: bigint | null;
+}
+
+export type HistoryRecord =
+  {type: 'create'; history: DecryptedHistory} | {type: 'delete'; id: string};
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+}
+
+function concatBytes(...arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * PASETO pre-authentication encoding
+ */
+function pae(...pieces: Uint8Array[]): Uint8Array {
+  const le64 = (n: number) => {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setBigUint64(0, BigInt(n), true);
+    return bytes;
+  };
+
+  return concatBytes(le64(pieces.length), ...pieces.flatMap(p => [le64(p.length), p]));
+}
+
+/**
+ * Decode an Atuin encryption key, as found in Atuin's key file. The key is
+ * stored as a base64 encoded msgpack array of the 32 key bytes.
+ */
+export function decodeKey(encoded: string): Uint8Array {
+  let decoded: unknown;
+  try {
+    const bytes = Uint8Array.from(atob(encoded.trim()), c => c.charCodeAt(0));
+    decoded = decode(bytes);
+  } catch {
+    throw new Error('Encryption key is not a valid Atuin key');
+  }
+
+  if (!Array.isArray(decoded) && !(decoded instanceof Uint8Array)) {
+    throw new Error('Encryption key is not a valid Atuin key');
+  }
+
+  const key = Uint8Array.from(decoded as ArrayLike<number>);
+  if (key.length !== 32) {
+    throw new Error(`Encryption key must be 32 bytes, got ${key.length}`);
+  }
+
+  return key;
+}
+
+/**
+ * Unwrap a PASERK k4.local-wrap.pie key using the wrapping key
+ */
+export function unwrapKey(paserk: string, wrappingKey: Uint8Array): Uint8Array {
+  if (!paserk.startsWith(PASERK_WRAP_HEADER)) {
+    throw new Error('Content encryption key is not a k4.local-wrap.pie key');
+  }
+
+  const header = encoder.encode(PASERK_WRAP_HEADER);
+  const bytes = base64UrlDecode(paserk.slice(PASERK_WRAP_HEADER.length));
+  const tag = bytes.slice(0, 32);
+  const nonce = bytes.slice(32, 64);
+  const ciphertext = bytes.slice(64);
+
+  const authKey = blake2b(concatBytes(new Uint8Array([0x81]), nonce), {
+    key: wrappingKey,
+    dkLen: 32,
+  });
+  const expectedTag = blake2b(concatBytes(header, nonce, ciphertext), {
+    key: authKey,
+    dkLen: 32,
+  });
+  if (!constantTimeEqual(tag, expectedTag)) {
+    throw new Error('Failed to unwrap content encryption key');
+  }
+
+  const derived = blake2b(concatBytes(new Uint8Array([0x80]), nonce), {
+    key: wrappingKey,
+    dkLen: 56,
+  });
+
+  return xchacha20(derived.slice(0, 32), derived.slice(32), ciphertext);
+}
+
+/**
+ * Decrypt a PASETO v4.local token, verifying the implicit assertion
+ */
+export function decryptToken(
+  token: string,
+  key: Uint8Array,
+  implicitAssertion = ''
+): Uint8Array {
+  if (!token.startsWith(PASETO_HEADER)) {
+    throw new Error('Record data is not a v4.local token');
+  }
+
+  const [body, footer = ''] = token.slice(PASETO_HEADER.length).split('.');
+  const bytes = base64UrlDecode(body);
+  const nonce = bytes.slice(0, 32);
+  const ciphertext = bytes.slice(32, -32);
+  const tag = bytes.slice(-32);
+
+  const derived = blake2b(concatBytes(encoder.encode('paseto-encryption-key'), nonce), {
+    key,
+    dkLen: 56,
+  });
+  const authKey = blake2b(
+    concatBytes(encoder.encode('paseto-auth-key-for-aead'), nonce),
+    {
+      key,
+      dkLen: 32,
+    }
+  );
+
+  const preAuth = pae(
+    encoder.encode(PASETO_HEADER),
+    nonce,
+    ciphertext,
+    footer ? base64UrlDecode(footer) : new Uint8Array(),
+    encoder.encode(implicitAssertion)
+  );
+  const expectedTag = blake2b(preAuth, {key: authKey, dkLen: 32});
+  if (!constantTimeEqual(tag, expectedTag)) {
+    throw new Error('Failed to authenticate record data');
+  }
+
+  return xchacha20(derived.slice(0, 32), derived.slice(32), ciphertext);
+}
+
+/**
+ * Decrypt the contents of an Atuin record store record.
+ *
+ * Records are encrypted with a random content encryption key (CEK), which is
+ * itself wrapped with the user's key. The record metadata is bound to the
+ * ciphertext as an implicit assertion.
+ */
+export function decryptRecord(record: EncryptedRecord, key: Uint8Array): Uint8Array {
+  // The CEK is stored as JSON holding the wrapped key and the wrapping key id
+  let wrappedKey = record.cek;
+  if (wrappedKey.startsWith('{')) {
+    wrappedKey = (JSON.parse(wrappedKey) as {wpk: string}).wpk;
+  }
+
+  const cek = unwrapKey(wrappedKey, key);
+
+  const assertions = JSON.stringify({
+    id: record.id,
+    idx: record.idx,
+    version: record.version,
+    tag: record.tag,
+    host: record.host,
+  });
+
+  const payload = decryptToken(record.data, cek, assertions);
+  const {data} = JSON.parse(decoder.decode(payload)) as {data: string};
+
+  return base64UrlDecode(data);
+}
+
+/**
+ * Decode a msgpack encoded history record, as stored in the record store
+ */
+export function decodeHistoryRecord(bytes: Uint8Array): HistoryRecord {
+  const [kind, value] = [...decodeMulti(bytes, {useBigInt64: true})];
+
+  if (kind === 1) {
+    return {type: 'delete', id: value as string};
+  }
+  if (kind !== 0) {
+    throw new Error(`Unknown history record type: ${kind}`);
+  }
+
+  const [version, fields] = [...decodeMulti(value as Uint8Array, {useBigInt64: true})];
+  if (version !== 0) {
+    throw new Error(`Unsupported history version: ${version}`);
+  }
+
+  const [id, timestamp, duration, exit, command, cwd, session, hostname, deletedAt] =
+    fields as unknown[];
+
+  return {
+    type: 'create',
+    history: {
+      id: id as string,
+      timestamp: BigInt(timestamp as number | bigint),
+      duration: Number(duration),
+      exit: Number(exit),
+      command: command as string,
+      cwd: cwd as string,
+      session: session as string,
+      hostname: hostname as string,
+      deletedAt: deletedAt === null ? null : BigInt(deletedAt as number | bigint),
+    },
+  };
+}
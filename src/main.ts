@@ -1,17 +1,47 @@
 import {createApp} from './app.ts';
 import {getConfig} from './config.ts';
-import {closePool, getCommandsPerDay, getStats, getTimeOfDayStats} from './db.ts';
+import {
+  closePool,
+  getCommandsPerDay,
+  getDirectories,
+  getDurationStats,
+  getFailureStats,
+  getHosts,
+  getPunchcardStats,
+  getSessionStats,
+  getStats,
+  getSubcommands,
+  getTimeOfDayStats,
+  getTopCommands,
+} from './db.ts';
 
 const config = getConfig();
 const app = createApp(
-  {getCommandsPerDay, getTimeOfDayStats, getStats},
-  config.cacheTtlSeconds
+  {
+    getCommandsPerDay,
+    getTimeOfDayStats,
+    getPunchcardStats,
+    getSessionStats,
+    getStats,
+    getTopCommands,
+    getSubcommands,
+    getFailureStats,
+    getDurationStats,
+    getHosts,
+    getDirectories,
+  },
+  config.cacheTtlSeconds,
+  config.user
 );
 
 // Start the server
 console.log(`Starting Atuin Metrics API on port ${config.port}...`);
 console.log(`Database: ${config.databaseUrl.replace(/:[^:@]+@/, ':***@')}`);
 console.log(`Cache TTL: ${config.cacheTtlSeconds}s`);
+console.log(`Record store decryption: ${config.encryptionKey ? 'enabled' : 'disabled'}`);
+if (config.user) {
+  console.log(`Restricted to user: ${config.user}`);
+}
 
 // Graceful shutdown handler
 const shutdown = async (signal: string) => {
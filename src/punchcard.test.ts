@@ -0,0 +1,74 @@
+import {assert, assertEquals} from '@std/assert';
+
+import type {PunchcardStats} from './db.ts';
+import {generatePunchcard} from './punchcard.ts';
+
+function countElements(svg: string, tagName: string): number {
+  return (svg.match(new RegExp(`<${tagName}`, 'g')) || []).length;
+}
+
+function createStats(values: Record<string, number> = {}): PunchcardStats {
+  return {
+    days: Array.from({length: 7}, (_, day) =>
+      Array.from({length: 24}, (_, hour) => values[`${day},${hour}`] ?? 0)
+    ),
+  };
+}
+
+Deno.test('generatePunchcard renders a circle for every hour of the week', () => {
+  const svg = generatePunchcard(createStats({'1,9': 4}));
+
+  assert(svg.startsWith('<svg'));
+  assert(svg.endsWith('</svg>'));
+  assertEquals(countElements(svg, 'circle'), 7 * 24);
+});
+
+Deno.test('generatePunchcard sizes circles relative to the busiest hour', () => {
+  const svg = generatePunchcard(createStats({'1,9': 4, '2,10': 1}), {cellSize: 20});
+
+  // The busiest hour fills the cell, a quarter of the average has half the radius
+  assert(svg.includes('r="10" fill="#'));
+  assert(svg.includes('r="5" fill="#'));
+});
+
+Deno.test('generatePunchcard uses the cell background for empty hours', () => {
+  const svg = generatePunchcard(createStats({'1,9': 4}), {cellBackground: '#123456'});
+
+  assertEquals(
+    countElements(svg, 'circle cx="[^"]*" cy="[^"]*" r="2" fill="#123456"'),
+    167
+  );
+});
+
+Deno.test('generatePunchcard labels days and hours', () => {
+  const svg = generatePunchcard(createStats());
+
+  assert(svg.includes('>Sun<'));
+  assert(svg.includes('>Sat<'));
+  assert(svg.includes('>12a<'));
+  assert(svg.includes('>9p<'));
+});
+
+Deno.test('generatePunchcard labels can be disabled', () => {
+  const svg = generatePunchcard(createStats(), {
+    showDayLabels: false,
+    showHourLabels: false,
+  });
+
+  assertEquals(countElements(svg, 'text'), 0);
+});
+
+Deno.test('generatePunchcard switches to dark colors with a media query', () => {
+  const svg = generatePunchcard(createStats({'1,9': 4}), {
+    textColor: '#57606a',
+    cellBackground: '#ebedf0',
+    darkColors: {baseColor: '#39d353', textColor: '#c9d1d9', cellBackground: '#161b22'},
+  });
+
+  assert(svg.includes('<style>@media (prefers-color-scheme: dark){'));
+  assert(svg.includes('.c0{fill:#161b22}'));
+  assert(svg.includes('fill="#ebedf0" class="c0"'));
+  assert(svg.includes('fill="#57606a" class="t"'));
+  assert(svg.includes('class="c9"'));
+  assert(!generatePunchcard(createStats({'1,9': 4})).includes('class='));
+});
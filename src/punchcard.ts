@@ -0,0 +1,146 @@
+import type {PunchcardStats} from './db.ts';
+import {
+  classAttr,
+  createColorScale,
+  getRelativeIntensity,
+  renderDarkModeStyle,
+  type SvgStyleOptions,
+} from './svg.ts';
+import {formatHour} from './utils.ts';
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface PunchcardOptions extends SvgStyleOptions {
+  showHourLabels?: boolean;
+}
+
+interface Layout {
+  width: number;
+  height: number;
+  leftMargin: number;
+  topMargin: number;
+  pitch: number;
+}
+
+/**
+ * Render day of week labels down the left side
+ */
+function renderDayLabels(
+  layout: Layout,
+  cellSize: number,
+  textColor: string,
+  themed: boolean
+): string {
+  return DAYS.map((day, i) => {
+    const y = layout.topMargin + i * layout.pitch + cellSize / 2;
+    return `<text x="8" y="${y}" fill="${textColor}"${classAttr('t', themed)} font-size="10" font-family="monospace" dominant-baseline="middle">${day}</text>`;
+  }).join('');
+}
+
+/**
+ * Render a label every three hours along the top
+ */
+function renderHourLabels(
+  layout: Layout,
+  cellSize: number,
+  textColor: string,
+  themed: boolean
+): string {
+  let svg = '';
+
+  for (let hour = 0; hour < 24; hour += 3) {
+    const x = layout.leftMargin + hour * layout.pitch + cellSize / 2;
+    svg += `<text x="${x}" y="12" fill="${textColor}"${classAttr('t', themed)} font-size="10" font-family="monospace" text-anchor="middle">${formatHour(hour)}</text>`;
+  }
+
+  return svg;
+}
+
+/**
+ * Render a circle for each hour of each day, sized by area and colored by the
+ * average number of commands
+ */
+function renderPunches(
+  stats: PunchcardStats,
+  layout: Layout,
+  cellSize: number,
+  cellBackground: string,
+  getColor: (intensity: number) => string,
+  themed: boolean
+): string {
+  const max = Math.max(0, ...stats.days.flat());
+  const maxRadius = cellSize / 2;
+  const minRadius = Math.min(2, maxRadius);
+
+  return stats.days
+    .flatMap((hours, day) =>
+      hours.map((value, hour) => {
+        const cx = layout.leftMargin + hour * layout.pitch + maxRadius;
+        const cy = layout.topMargin + day * layout.pitch + maxRadius;
+
+        if (value === 0 || max === 0) {
+          return `<circle cx="${cx}" cy="${cy}" r="${minRadius}" fill="${cellBackground}"${classAttr('c0', themed)}/>`;
+        }
+
+        const radius = Math.max(minRadius, maxRadius * Math.sqrt(value / max));
+        const intensity = getRelativeIntensity(value, max);
+
+        return `<circle cx="${cx}" cy="${cy}" r="${Math.round(radius * 100) / 100}" fill="${getColor(intensity)}"${classAttr(`c${intensity}`, themed)}/>`;
+      })
+    )
+    .join('\n');
+}
+
+/**
+ * Generate a GitHub-style punch card SVG of the average commands run in each
+ * hour of each day of the week
+ */
+export function generatePunchcard(
+  stats: PunchcardStats,
+  options: PunchcardOptions = {}
+): string {
+  const {
+    cellSize = 18,
+    cellGap = 4,
+    showDayLabels = true,
+    showHourLabels = true,
+    baseColor = '#fb7185',
+    textColor = '#57606a',
+    cellBackground = '#ebedf0',
+    darkColors,
+  } = options;
+
+  const pitch = cellSize + cellGap;
+  const leftMargin = showDayLabels ? 40 : 10;
+  const topMargin = showHourLabels ? 20 : 10;
+
+  const layout: Layout = {
+    width: leftMargin + 24 * pitch + 10,
+    height: topMargin + 7 * pitch + 10,
+    leftMargin,
+    topMargin,
+    pitch,
+  };
+
+  const getColor = createColorScale(baseColor, cellBackground);
+  const themed = darkColors !== undefined;
+
+  let svg = `<svg width="${layout.width}" height="${layout.height}" xmlns="http://www.w3.org/2000/svg">`;
+
+  if (darkColors) {
+    svg += renderDarkModeStyle(darkColors);
+  }
+
+  if (showDayLabels) {
+    svg += renderDayLabels(layout, cellSize, textColor, themed);
+  }
+
+  if (showHourLabels) {
+    svg += renderHourLabels(layout, cellSize, textColor, themed);
+  }
+
+  svg += renderPunches(stats, layout, cellSize, cellBackground, getColor, themed);
+  svg += '</svg>';
+
+  return svg;
+}
@@ -0,0 +1,155 @@
+import {assertEquals} from '@std/assert';
+
+import {
+  findProgram,
+  findSubcommands,
+  isProgramWord,
+  parseCommandDirectories,
+  parseCommandLine,
+  resolveCommand,
+  splitCommandLine,
+} from './shell.ts';
+
+Deno.test('splitCommandLine splits simple words', () => {
+  assertEquals(splitCommandLine('git commit -m message'), [
+    ['git', 'commit', '-m', 'message'],
+  ]);
+});
+
+Deno.test('splitCommandLine handles quoting', () => {
+  assertEquals(
+    splitCommandLine(`git commit -m "fix the \\"thing\\"" -m 'it is | done'`),
+    [['git', 'commit', '-m', 'fix the "thing"', '-m', 'it is | done']]
+  );
+});
+
+Deno.test('splitCommandLine handles backslash escapes', () => {
+  assertEquals(splitCommandLine('ls my\\ file \\;'), [['ls', 'my file', ';']]);
+});
+
+Deno.test('splitCommandLine splits pipelines and lists', () => {
+  assertEquals(splitCommandLine('cat a | grep b && git add . ; echo done &'), [
+    ['cat', 'a'],
+    ['grep', 'b'],
+    ['git', 'add', '.'],
+    ['echo', 'done'],
+  ]);
+});
+
+Deno.test('splitCommandLine keeps redirections within a command', () => {
+  assertEquals(splitCommandLine('make build 2>&1 | tee log'), [
+    ['make', 'build', '2>&1'],
+    ['tee', 'log'],
+  ]);
+});
+
+Deno.test('splitCommandLine ignores comments', () => {
+  assertEquals(splitCommandLine('git push # ship it'), [['git', 'push']]);
+});
+
+Deno.test('resolveCommand strips assignments and wrappers', () => {
+  assertEquals(resolveCommand(['FOO=1', 'git', 'status']), {
+    program: 'git',
+    args: ['status'],
+  });
+  assertEquals(resolveCommand(['sudo', '-u', 'root', 'systemctl', 'restart', 'nginx']), {
+    program: 'systemctl',
+    args: ['restart', 'nginx'],
+  });
+  assertEquals(resolveCommand(['env', 'NODE_ENV=test', 'sudo', '-E', 'npm', 'test']), {
+    program: 'npm',
+    args: ['test'],
+  });
+});
+
+Deno.test('resolveCommand strips program paths', () => {
+  assertEquals(resolveCommand(['/usr/bin/git', 'log']), {program: 'git', args: ['log']});
+});
+
+Deno.test('resolveCommand treats a bare wrapper as the program', () => {
+  assertEquals(resolveCommand(['sudo', '-v']), {program: 'sudo', args: []});
+});
+
+Deno.test('resolveCommand returns null for assignments only', () => {
+  assertEquals(resolveCommand(['FOO=bar']), null);
+});
+
+Deno.test('parseCommandLine resolves every command in a pipeline', () => {
+  const programs = parseCommandLine('sudo git log | grep fix | wc -l').map(
+    c => c.program
+  );
+  assertEquals(programs, ['git', 'grep', 'wc']);
+});
+
+Deno.test('findProgram skips assignments and wrappers', () => {
+  assertEquals(findProgram('git status'), 'git');
+  assertEquals(findProgram('sudo -u root apt update'), 'apt');
+  assertEquals(findProgram('FOO=1 env -u BAR make test'), 'make');
+  assertEquals(findProgram('/usr/bin/git log | less'), 'git');
+  assertEquals(findProgram('FOO=1'), null);
+});
+
+Deno.test('findProgram handles programs named like object properties', () => {
+  assertEquals(findProgram('constructor -v x'), 'constructor');
+  assertEquals(findProgram('toString -x y'), 'toString');
+  assertEquals(findProgram('constructor foo'), 'constructor');
+  assertEquals(findSubcommands('__proto__ -C x status', '__proto__'), ['x']);
+});
+
+Deno.test('isProgramWord only accepts words which are the program', () => {
+  assertEquals(isProgramWord('git'), true);
+  assertEquals(isProgramWord('docker-compose'), true);
+  assertEquals(isProgramWord('sudo'), false);
+  assertEquals(isProgramWord('FOO=1'), false);
+  assertEquals(isProgramWord('/usr/bin/git'), false);
+  assertEquals(isProgramWord("'git'"), false);
+  assertEquals(isProgramWord('ls|less'), false);
+});
+
+Deno.test('findSubcommands finds each invocation of a program', () => {
+  assertEquals(findSubcommands('git add . && git commit -m "wip"', 'git'), [
+    'add',
+    'commit',
+  ]);
+  assertEquals(findSubcommands('git --version', 'git'), [null]);
+  assertEquals(findSubcommands('echo git status', 'git'), []);
+});
+
+Deno.test('findSubcommands skips the values of options', () => {
+  assertEquals(findSubcommands('git -C repo status', 'git'), ['status']);
+  assertEquals(findSubcommands('git -c core.x=y commit -m wip', 'git'), ['commit']);
+  assertEquals(findSubcommands('git --git-dir=.git log', 'git'), ['log']);
+  assertEquals(findSubcommands('git -C repo', 'git'), [null]);
+  assertEquals(findSubcommands('make -f build.mk install', 'make'), ['install']);
+  assertEquals(findSubcommands('kubectl --context prod -n web get pods', 'kubectl'), [
+    'get',
+  ]);
+});
+
+Deno.test('parseCommandDirectories follows cd', () => {
+  assertEquals(
+    parseCommandDirectories('cd repo && git status', '/home/user').map(
+      ({program, directory}) => [program, directory]
+    ),
+    [['git', '/home/user/repo']]
+  );
+  assertEquals(
+    parseCommandDirectories('cd .. ; ls; cd /tmp && make', '/home/user/repo').map(
+      ({program, directory}) => [program, directory]
+    ),
+    [
+      ['ls', '/home/user'],
+      ['make', '/tmp'],
+    ]
+  );
+});
+
+Deno.test('parseCommandDirectories stops at unknown directories', () => {
+  assertEquals(
+    parseCommandDirectories('ls && cd ~/repo && git status', '/tmp').length,
+    1
+  );
+  assertEquals(parseCommandDirectories('cd $REPO && git status', '/tmp'), []);
+  assertEquals(parseCommandDirectories('cd - && git status', '/tmp'), []);
+  assertEquals(parseCommandDirectories('cd && git status', '/tmp'), []);
+});
@@ -0,0 +1,327 @@
+import {resolvePath} from './utils.ts';
+
+/**
+ * Control operators that separate one simple command from the next
+ */
+const OPERATORS = ['&&', '||', '|&', ';;', '|', ';', '&', '\n', '(', ')'];
+
+/**
+ * Commands which run another command given as their arguments. Each maps to
+ * the set of its options which consume the following argument as a value.
+ */
+const WRAPPERS = new Map<string, Set<string>>([
+  ['sudo', new Set(['-u', '-g', '-h', '-p', '-C', '-D', '-r', '-t', '-U', '-T'])],
+  ['doas', new Set(['-u', '-C'])],
+  ['env', new Set(['-u', '-C', '-S', '--unset', '--chdir', '--split-string'])],
+  ['nice', new Set(['-n', '--adjustment'])],
+  ['nohup', new Set()],
+  ['time', new Set(['-f', '-o', '--format', '--output'])],
+  ['exec', new Set(['-a'])],
+  ['command', new Set()],
+  ['builtin', new Set()],
+  ['xargs', new Set(['-I', '-L', '-n', '-P', '-s', '-d', '-E', '-a'])],
+]);
+
+/**
+ * Programs with subcommands, each mapped to the set of its options which may
+ * come before the subcommand and consume the following argument as a value.
+ */
+const SUBCOMMAND_OPTIONS = new Map<string, Set<string>>([
+  [
+    'git',
+    new Set(['-C', '-c', '--git-dir', '--work-tree', '--namespace', '--config-env']),
+  ],
+  [
+    'make',
+    new Set(['-C', '-f', '-I', '-o', '-W', '--directory', '--file', '--makefile']),
+  ],
+  [
+    'kubectl',
+    new Set([
+      '-n',
+      '-s',
+      '--context',
+      '--cluster',
+      '--kubeconfig',
+      '--namespace',
+      '--server',
+      '--user',
+    ]),
+  ],
+  [
+    'docker',
+    new Set(['-c', '-H', '-l', '--config', '--context', '--host', '--log-level']),
+  ],
+  ['cargo', new Set(['-C', '-Z', '--config'])],
+  ['npm', new Set(['-w', '--prefix', '--workspace'])],
+  [
+    'systemctl',
+    new Set(['-H', '-M', '-p', '-t', '--host', '--machine', '--property', '--type']),
+  ],
+]);
+
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+/**
+ * Words which are always the program being run when they start a command line
+ */
+const PROGRAM_WORD = /^[A-Za-z0-9_.+-]+$/;
+
+export interface SimpleCommand {
+  /**
+   * The program being run, with any leading path removed
+   */
+  program: string;
+  /**
+   * The arguments passed to the program
+   */
+  args: string[];
+}
+
+/**
+ * Split a command line into the words of each simple command it contains.
+ *
+ * Handles single and double quoting, backslash escapes, comments and the
+ * control operators used to build pipelines and lists (`|`, `&&`, `;`, ...).
+ * Subshell parentheses are treated as separators.
+ */
+export function splitCommandLine(line: string): string[][] {
+  const commands: string[][] = [];
+  let words: string[] = [];
+  let word = '';
+  let inWord = false;
+
+  const endWord = () => {
+    if (inWord) {
+      words.push(word);
+    }
+    word = '';
+    inWord = false;
+  };
+
+  const endCommand = () => {
+    endWord();
+    if (words.length > 0) {
+      commands.push(words);
+    }
+    words = [];
+  };
+
+  let i = 0;
+  while (i < line.length) {
+    const char = line[i];
+
+    // Comments only start at the beginning of a word
+    if (char === '#' && !inWord) {
+      const newline = line.indexOf('\n', i);
+      if (newline === -1) {
+        break;
+      }
+      i = newline;
+      continue;
+    }
+
+    if (char === ' ' || char === '\t') {
+      endWord();
+      i++;
+      continue;
+    }
+
+    // Ampersands within redirections (`2>&1`, `&>file`) are not operators
+    const isRedirect = char === '&' && (line[i - 1] === '>' || line[i + 1] === '>');
+
+    const operator = OPERATORS.find(op => line.startsWith(op, i));
+    if (operator && !isRedirect) {
+      endCommand();
+      i += operator.length;
+      continue;
+    }
+
+    if (char === '\\') {
+      // A backslash-newline is a line continuation
+      if (line[i + 1] !== '\n' && i + 1 < line.length) {
+        word += line[i + 1];
+        inWord = true;
+      }
+      i += 2;
+      continue;
+    }
+
+    if (char === "'") {
+      const end = line.indexOf("'", i + 1);
+      const close = end === -1 ? line.length : end;
+      word += line.slice(i + 1, close);
+      inWord = true;
+      i = close + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      inWord = true;
+      i++;
+      while (i < line.length && line[i] !== '"') {
+        if (line[i] === '\\' && '"\\$`'.includes(line[i + 1] ?? '')) {
+          i++;
+        }
+        word += line[i];
+        i++;
+      }
+      i++;
+      continue;
+    }
+
+    word += char;
+    inWord = true;
+    i++;
+  }
+
+  endCommand();
+
+  return commands;
+}
+
+/**
+ * Resolve the program and arguments of a simple command, skipping over
+ * leading variable assignments and wrappers such as `sudo` or `env VAR=x`.
+ */
+export function resolveCommand(words: string[]): SimpleCommand | null {
+  let i = 0;
+
+  while (i < words.length) {
+    const word = words[i];
+
+    // Leading variable assignments (`FOO=bar cmd`)
+    if (ASSIGNMENT.test(word)) {
+      i++;
+      continue;
+    }
+
+    const program = word.split('/').pop() ?? word;
+    const wrapperOptions = WRAPPERS.get(program);
+
+    if (!wrapperOptions) {
+      return {program, args: words.slice(i + 1)};
+    }
+
+    // Skip the wrapper and its options to find the wrapped command
+    i++;
+    while (i < words.length && words[i].startsWith('-')) {
+      if (words[i] === '--') {
+        i++;
+        break;
+      }
+      i += wrapperOptions.has(words[i]) ? 2 : 1;
+    }
+
+    // A wrapper with nothing to wrap is itself the program (`sudo -v`)
+    if (i >= words.length) {
+      return {program, args: []};
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a command line into each of the simple commands it runs
+ */
+export function parseCommandLine(line: string): SimpleCommand[] {
+  return splitCommandLine(line)
+    .map(resolveCommand)
+    .filter((command): command is SimpleCommand => command !== null);
+}
+
+export interface DirectoryCommand extends SimpleCommand {
+  /**
+   * The directory the command runs in
+   */
+  directory: string;
+}
+
+/**
+ * Parse a command line run in `cwd` into each of the simple commands it runs,
+ * along with the directory each runs in, following `cd` along the way (`cd
+ * repo && git status`). Commands after a `cd` to a directory which can't be
+ * known from the command line alone (`cd`, `cd ~`, `cd -`, `cd $DIR`) are left
+ * out.
+ */
+export function parseCommandDirectories(line: string, cwd: string): DirectoryCommand[] {
+  const commands: DirectoryCommand[] = [];
+  let directory = cwd;
+
+  for (const command of parseCommandLine(line)) {
+    if (command.program !== 'cd') {
+      commands.push({...command, directory});
+      continue;
+    }
+
+    const args = command.args.filter(arg => arg === '-' || !arg.startsWith('-'));
+    const target = args[0];
+    if (target === undefined || target === '-' || /^~|[$`]/.test(target)) {
+      break;
+    }
+    directory = resolvePath(directory, target);
+  }
+
+  return commands;
+}
+
+/**
+ * Find the program a command line runs: the program of its first simple
+ * command, skipping over variable assignments and wrappers such as `sudo`.
+ * Command lines which run nothing, such as a lone assignment, are `null`.
+ */
+export function findProgram(line: string): string | null {
+  return parseCommandLine(line)[0]?.program ?? null;
+}
+
+/**
+ * Whether command lines starting with the given word (up to the first
+ * whitespace) run the program of that name, so that they don't need to be
+ * tokenized to find it. Wrappers, and words with quoting, paths, assignments
+ * or operators need the full command line.
+ */
+export function isProgramWord(word: string): boolean {
+  return PROGRAM_WORD.test(word) && !WRAPPERS.has(word);
+}
+
+/**
+ * Find the first argument which is not an option, skipping the values of the
+ * given options
+ */
+function findSubcommand(args: string[], valueOptions: Set<string>): string | null {
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i];
+
+    if (arg === '--') {
+      return args[i + 1] ?? null;
+    }
+    if (!arg.startsWith('-')) {
+      return arg;
+    }
+    i += valueOptions.has(arg) ? 2 : 1;
+  }
+
+  return null;
+}
+
+/**
+ * Find the subcommand of each invocation of `program` within a command line.
+ * The subcommand is the first argument which is not an option or the value of
+ * one (`git -C repo status`). Invocations without a subcommand are reported as
+ * `null`.
+ */
+export function findSubcommands(line: string, program: string): Array<string | null> {
+  return parseCommandLine(line)
+    .filter(command => command.program === program)
+    .map(getSubcommand);
+}
+
+/**
+ * Get the subcommand of a simple command, see `findSubcommands`
+ */
+export function getSubcommand(command: SimpleCommand): string | null {
+  const valueOptions = SUBCOMMAND_OPTIONS.get(command.program) ?? new Set<string>();
+  return findSubcommand(command.args, valueOptions);
+}
@@ -0,0 +1,50 @@
+import {assert, assertEquals} from '@std/assert';
+
+import type {DailyCommandCount} from './db.ts';
+import {generateSparkline} from './sparkline.ts';
+
+function countElements(svg: string, tagName: string): number {
+  return (svg.match(new RegExp(`<${tagName}`, 'g')) || []).length;
+}
+
+const data: DailyCommandCount[] = [
+  {date: '2024-01-01', count: 0},
+  {date: '2024-01-02', count: 10},
+  {date: '2024-01-03', count: 5},
+];
+
+Deno.test('generateSparkline renders a line scaled to the size', () => {
+  const svg = generateSparkline(data, {width: 104, height: 24, strokeWidth: 2});
+
+  assert(svg.includes('width="104" height="24"'));
+  assertEquals(countElements(svg, 'path'), 1);
+
+  // The busiest day touches the top and inactive days the bottom
+  assert(svg.includes('d="M 2 22 L 52 2 L 102 12"'));
+});
+
+Deno.test('generateSparkline renders an area when given a fill color', () => {
+  const svg = generateSparkline(data, {
+    width: 104,
+    height: 24,
+    strokeWidth: 2,
+    strokeColor: '#ff0000',
+    fillColor: '#ffcccc',
+  });
+
+  assertEquals(countElements(svg, 'path'), 2);
+  assert(svg.includes('L 102 22 L 2 22 Z" fill="#ffcccc"'));
+  assert(svg.includes('stroke="#ff0000"'));
+});
+
+Deno.test('generateSparkline handles a single day and no data', () => {
+  const single = generateSparkline([{date: '2024-01-01', count: 3}], {
+    width: 104,
+    height: 24,
+    strokeWidth: 2,
+  });
+  assert(single.includes('d="M 2 2 L 102 2"'));
+
+  const empty = generateSparkline([], {width: 104, height: 24, strokeWidth: 2});
+  assert(empty.includes('d="M 2 22 L 102 22"'));
+});
@@ -0,0 +1,63 @@
+import type {DailyCommandCount} from './db.ts';
+
+export interface SparklineOptions {
+  width?: number;
+  height?: number;
+  strokeColor?: string;
+  strokeWidth?: number;
+  /**
+   * Color of the area below the line. The area is not drawn when omitted.
+   */
+  fillColor?: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Generate a small line or area chart SVG of a series of command counts,
+ * scaled to fit the given size
+ */
+export function generateSparkline(
+  data: DailyCommandCount[],
+  options: SparklineOptions = {}
+): string {
+  const {
+    width = 120,
+    height = 30,
+    strokeColor = '#fb7185',
+    strokeWidth = 1.5,
+    fillColor,
+  } = options;
+
+  // Keep the stroke within the bounds of the image
+  const padding = strokeWidth;
+  const innerWidth = width - padding * 2;
+  const innerHeight = height - padding * 2;
+
+  const counts = data.length > 0 ? data.map(d => d.count) : [0];
+  const max = Math.max(...counts);
+
+  // A single point is drawn as a flat line across the full width
+  const values = counts.length === 1 ? [counts[0], counts[0]] : counts;
+
+  const points = values.map((value, i) => ({
+    x: round(padding + (i / (values.length - 1)) * innerWidth),
+    y: round(padding + innerHeight - (max > 0 ? (value / max) * innerHeight : 0)),
+  }));
+
+  const line = points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+
+  let svg = `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">`;
+
+  if (fillColor) {
+    const bottom = round(padding + innerHeight);
+    const first = points[0];
+    const last = points[points.length - 1];
+    svg += `<path d="${line} L ${last.x} ${bottom} L ${first.x} ${bottom} Z" fill="${fillColor}" stroke="none"/>`;
+  }
+
+  svg += `<path d="${line}" fill="none" stroke="${strokeColor}" stroke-width="${strokeWidth}" stroke-linejoin="round" stroke-linecap="round"/>`;
+  svg += '</svg>';
+
+  return svg;
+}
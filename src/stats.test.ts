@@ -0,0 +1,231 @@
+import {assertEquals} from '@std/assert';
+
+import {
+  calculateDelta,
+  calculateStreaks,
+  calculateTrend,
+  compareWindows,
+  detectAnomalies,
+  summarizeWindow,
+} from './stats.ts';
+
+Deno.test('calculateStreaks finds the current and longest streaks', () => {
+  const result = calculateStreaks(
+    [
+      {date: '2024-01-01', count: 4},
+      {date: '2024-01-02', count: 10},
+      {date: '2024-01-03', count: 2},
+      {date: '2024-01-05', count: 6},
+      {date: '2024-01-06', count: 1},
+    ],
+    {endDate: '2024-01-06'}
+  );
+
+  assertEquals(result.currentStreak, 2);
+  assertEquals(result.longestStreak, {
+    days: 3,
+    startDate: '2024-01-01',
+    endDate: '2024-01-03',
+  });
+  assertEquals(result.activeDays, 5);
+  assertEquals(result.totalDays, 6);
+  assertEquals(result.activeDayPercentage, 83.33);
+  assertEquals(result.busiestDay, {date: '2024-01-02', count: 10});
+  assertEquals(result.meanPerActiveDay, 4.6);
+  assertEquals(result.medianPerActiveDay, 4);
+});
+
+Deno.test('calculateStreaks keeps a streak current through yesterday', () => {
+  const data = [
+    {date: '2024-01-01', count: 1},
+    {date: '2024-01-02', count: 1},
+  ];
+
+  assertEquals(calculateStreaks(data, {endDate: '2024-01-03'}).currentStreak, 2);
+  assertEquals(calculateStreaks(data, {endDate: '2024-01-04'}).currentStreak, 0);
+});
+
+Deno.test('calculateStreaks spans the full period', () => {
+  const result = calculateStreaks(
+    [
+      {date: '2023-12-31', count: 5},
+      {date: '2024-01-02', count: 1},
+      {date: '2024-01-03', count: 0},
+      {date: '2024-01-04', count: 3},
+    ],
+    {startDate: '2024-01-01', endDate: '2024-01-10'}
+  );
+
+  // Days outside the period and days without commands are ignored
+  assertEquals(result.activeDays, 2);
+  assertEquals(result.totalDays, 10);
+  assertEquals(result.activeDayPercentage, 20);
+  assertEquals(result.medianPerActiveDay, 2);
+  assertEquals(result.longestStreak, {
+    days: 1,
+    startDate: '2024-01-02',
+    endDate: '2024-01-02',
+  });
+});
+
+Deno.test('calculateStreaks handles no activity', () => {
+  assertEquals(calculateStreaks([], {endDate: '2024-01-10'}), {
+    currentStreak: 0,
+    longestStreak: null,
+    activeDays: 0,
+    totalDays: 0,
+    activeDayPercentage: 0,
+    busiestDay: null,
+    meanPerActiveDay: 0,
+    medianPerActiveDay: 0,
+  });
+});
+
+Deno.test('summarizeWindow summarizes a window of days', () => {
+  const hourly = new Array(24).fill(0);
+  hourly[9] = 3;
+  hourly[14] = 5;
+
+  const result = summarizeWindow(
+    [
+      {date: '2024-01-01', count: 6},
+      {date: '2024-01-03', count: 4},
+    ],
+    hourly,
+    {startDate: '2024-01-01', endDate: '2024-01-04'}
+  );
+
+  assertEquals(result, {
+    startDate: '2024-01-01',
+    endDate: '2024-01-04',
+    total: 10,
+    activeDays: 2,
+    averagePerDay: 2.5,
+    topHour: 14,
+  });
+});
+
+Deno.test('calculateDelta calculates absolute and percent changes', () => {
+  assertEquals(calculateDelta(150, 120), {absolute: 30, percent: 25});
+  assertEquals(calculateDelta(1, 3), {absolute: -2, percent: -66.67});
+  assertEquals(calculateDelta(5, 0), {absolute: 5, percent: null});
+});
+
+Deno.test('compareWindows calculates deltas for each metric', () => {
+  const range = {startDate: '2024-01-01', endDate: '2024-01-02'};
+  const current = summarizeWindow([{date: '2024-01-01', count: 8}], [], range);
+  const previous = summarizeWindow([], [], range);
+
+  const result = compareWindows(current, previous);
+
+  assertEquals(result.current.topHour, null);
+  assertEquals(result.deltas, {
+    total: {absolute: 8, percent: null},
+    activeDays: {absolute: 1, percent: null},
+    averagePerDay: {absolute: 4, percent: null},
+  });
+});
+
+Deno.test('calculateTrend adds moving averages and a cumulative total', () => {
+  const data = Array.from({length: 10}, (_, i) => ({
+    date: `2024-01-${String(i + 1).padStart(2, '0')}`,
+    count: i + 1,
+  }));
+
+  const result = calculateTrend(data);
+
+  assertEquals(result.data[0], {
+    date: '2024-01-01',
+    count: 1,
+    average7: 1,
+    average30: 1,
+    cumulative: 1,
+  });
+  assertEquals(result.data[9], {
+    date: '2024-01-10',
+    count: 10,
+    average7: 7,
+    average30: 5.5,
+    cumulative: 55,
+  });
+
+  // One more command each day is seven more each week
+  assertEquals(result.trend.slopePerWeek, 7);
+});
+
+Deno.test('calculateTrend treats missing days as inactive', () => {
+  const result = calculateTrend([
+    {date: '2024-01-01', count: 6},
+    {date: '2024-01-03', count: 0},
+    {date: '2024-01-04', count: 2},
+  ]);
+
+  assertEquals(
+    result.data.map(d => [d.date, d.average7, d.cumulative]),
+    [
+      ['2024-01-01', 6, 6],
+      ['2024-01-02', 3, 6],
+      ['2024-01-03', 2, 6],
+      ['2024-01-04', 2, 8],
+    ]
+  );
+  assertEquals(result.trend.slopePerWeek, -8.4);
+});
+
+Deno.test('calculateTrend handles an empty series', () => {
+  assertEquals(calculateTrend([]), {data: [], trend: {slopePerWeek: 0}});
+});
+
+// Four weeks alternating between 10 and 12 commands a day, from 2024-01-01
+const normalDays = Array.from({length: 28}, (_, i) => ({
+  date: Temporal.PlainDate.from('2024-01-01').add({days: i}).toString(),
+  count: i % 2 === 0 ? 10 : 12,
+}));
+
+Deno.test('detectAnomalies flags busy and quiet days', () => {
+  const result = detectAnomalies([
+    ...normalDays,
+    {date: '2024-01-29', count: 60},
+    {date: '2024-01-30', count: 11},
+  ]);
+
+  assertEquals(result, [
+    {date: '2024-01-29', count: 60, score: 49, baseline: 11, type: 'busy'},
+  ]);
+
+  // Days missing from the series count as quiet days
+  const quiet = detectAnomalies([...normalDays, {date: '2024-01-30', count: 11}]);
+  assertEquals(
+    quiet.map(a => [a.date, a.type]),
+    [['2024-01-29', 'quiet']]
+  );
+});
+
+Deno.test('detectAnomalies supports the median absolute deviation', () => {
+  // A single earlier outlier inflates the standard deviation but not the MAD
+  const data = [
+    ...normalDays.slice(0, 14),
+    {date: '2024-01-15', count: 200},
+    ...normalDays.slice(15),
+    {date: '2024-01-29', count: 30},
+  ];
+
+  assertEquals(
+    detectAnomalies(data, {window: 14}).map(a => a.date),
+    ['2024-01-15']
+  );
+  assertEquals(
+    detectAnomalies(data, {method: 'mad', window: 14}).map(a => a.date),
+    ['2024-01-15', '2024-01-29']
+  );
+});
+
+Deno.test('detectAnomalies needs a week of history to score a day', () => {
+  const result = detectAnomalies([
+    {date: '2024-01-01', count: 10},
+    {date: '2024-01-02', count: 12},
+    {date: '2024-01-03', count: 500},
+  ]);
+
+  assertEquals(result, []);
+});
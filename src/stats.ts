@@ -0,0 +1,387 @@
+import type {DailyCommandCount} from './db.ts';
+import {fillEmptyBuckets} from './utils.ts';
+
+export interface Streak {
+  /**
+   * Number of consecutive days with at least one command
+   */
+  days: number;
+  startDate: string;
+  endDate: string;
+}
+
+export interface StreakStats {
+  /**
+   * Consecutive active days up to the end of the period. A streak is still
+   * current when the last day of the period has no commands yet.
+   */
+  currentStreak: number;
+  longestStreak: Streak | null;
+  activeDays: number;
+  totalDays: number;
+  /**
+   * Percentage (0-100) of days in the period with at least one command
+   */
+  activeDayPercentage: number;
+  busiestDay: DailyCommandCount | null;
+  meanPerActiveDay: number;
+  medianPerActiveDay: number;
+}
+
+export interface StreakOptions {
+  /**
+   * First day of the period. Defaults to the first active day.
+   */
+  startDate?: string;
+  /**
+   * Last day of the period, usually today in the requested timezone
+   */
+  endDate: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Calculate streak and consistency statistics from daily command counts. The
+ * counts are expected to be bucketed in the requested timezone, as returned by
+ * `getCommandsPerDay`.
+ */
+export function calculateStreaks(
+  data: DailyCommandCount[],
+  options: StreakOptions
+): StreakStats {
+  const {startDate, endDate} = options;
+
+  const active = data
+    .filter(d => d.count > 0)
+    .filter(d => (!startDate || d.date >= startDate) && d.date <= endDate)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const periodStart = startDate ?? active[0]?.date;
+  const totalDays = periodStart
+    ? Temporal.PlainDate.from(periodStart).until(endDate).days + 1
+    : 0;
+
+  let longestStreak: Streak | null = null;
+  let streak: Streak | null = null;
+
+  for (const {date} of active) {
+    const previous = Temporal.PlainDate.from(date).subtract({days: 1}).toString();
+
+    const next: Streak =
+      streak?.endDate === previous
+        ? {...streak, days: streak.days + 1, endDate: date}
+        : {days: 1, startDate: date, endDate: date};
+    streak = next;
+
+    // The earliest streak wins ties
+    if (longestStreak === null || streak.days > longestStreak.days) {
+      longestStreak = streak;
+    }
+  }
+
+  // The most recent streak is only current when it reaches the end of the
+  // period, or the day before when nothing has been run yet today
+  const yesterday = Temporal.PlainDate.from(endDate).subtract({days: 1}).toString();
+  const currentStreak =
+    streak && (streak.endDate === endDate || streak.endDate === yesterday)
+      ? streak.days
+      : 0;
+
+  const counts = active.map(d => d.count);
+
+  const busiestDay = active.reduce<DailyCommandCount | null>(
+    (busiest, day) => (busiest === null || day.count > busiest.count ? day : busiest),
+    null
+  );
+
+  return {
+    currentStreak,
+    longestStreak,
+    activeDays: active.length,
+    totalDays,
+    activeDayPercentage: totalDays > 0 ? round((active.length / totalDays) * 100) : 0,
+    busiestDay: busiestDay && {date: busiestDay.date, count: busiestDay.count},
+    meanPerActiveDay:
+      counts.length > 0 ? round(counts.reduce((a, b) => a + b, 0) / counts.length) : 0,
+    medianPerActiveDay: counts.length > 0 ? round(median(counts)) : 0,
+  };
+}
+
+export interface WindowSummary {
+  startDate: string;
+  endDate: string;
+  total: number;
+  activeDays: number;
+  /**
+   * Average commands per day over every day of the window
+   */
+  averagePerDay: number;
+  /**
+   * The hour of the day (0-23) with the most commands on average, or null
+   * when no commands were run
+   */
+  topHour: number | null;
+}
+
+export interface Delta {
+  absolute: number;
+  /**
+   * Change relative to the previous value, as a percentage. Null when the
+   * previous value is 0.
+   */
+  percent: number | null;
+}
+
+export interface WindowComparison {
+  current: WindowSummary;
+  previous: WindowSummary;
+  deltas: {
+    total: Delta;
+    activeDays: Delta;
+    averagePerDay: Delta;
+  };
+}
+
+/**
+ * Summarize the commands run within a window of days from its daily counts
+ * and hourly averages
+ */
+export function summarizeWindow(
+  data: DailyCommandCount[],
+  hourly: number[],
+  range: {startDate: string; endDate: string}
+): WindowSummary {
+  const {startDate, endDate} = range;
+  const days = Temporal.PlainDate.from(startDate).until(endDate).days + 1;
+  const total = data.reduce((sum, d) => sum + d.count, 0);
+  const peak = Math.max(0, ...hourly);
+
+  return {
+    startDate,
+    endDate,
+    total,
+    activeDays: data.filter(d => d.count > 0).length,
+    averagePerDay: round(total / days),
+    topHour: peak > 0 ? hourly.indexOf(peak) : null,
+  };
+}
+
+/**
+ * Calculate the absolute and percentage change from a previous value
+ */
+export function calculateDelta(current: number, previous: number): Delta {
+  return {
+    absolute: round(current - previous),
+    percent: previous !== 0 ? round(((current - previous) / previous) * 100) : null,
+  };
+}
+
+/**
+ * Compare the summaries of two windows
+ */
+export function compareWindows(
+  current: WindowSummary,
+  previous: WindowSummary
+): WindowComparison {
+  return {
+    current,
+    previous,
+    deltas: {
+      total: calculateDelta(current.total, previous.total),
+      activeDays: calculateDelta(current.activeDays, previous.activeDays),
+      averagePerDay: calculateDelta(current.averagePerDay, previous.averagePerDay),
+    },
+  };
+}
+
+export interface TrendPoint extends DailyCommandCount {
+  /**
+   * Average over the trailing 7 days, including this day
+   */
+  average7: number;
+  /**
+   * Average over the trailing 30 days, including this day
+   */
+  average30: number;
+  /**
+   * Running total up to and including this day
+   */
+  cumulative: number;
+}
+
+export interface HistoryTrend {
+  data: TrendPoint[];
+  trend: {
+    /**
+     * Slope of the least squares line through the daily counts, as the change
+     * in commands per day over a week
+     */
+    slopePerWeek: number;
+  };
+}
+
+/**
+ * Calculate the slope of the least squares line through a series of values
+ * spaced one unit apart
+ */
+function calculateSlope(values: number[]): number {
+  const n = values.length;
+  if (n < 2) {
+    return 0;
+  }
+
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((a, b) => a + b, 0) / n;
+
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((y, x) => {
+    numerator += (x - meanX) * (y - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+
+  return numerator / denominator;
+}
+
+/**
+ * Add moving averages and a cumulative total to each day of a daily series,
+ * along with its linear trend. Days missing from the series are treated as
+ * days without commands. Moving averages at the start of the series are
+ * taken over the days available.
+ */
+export function calculateTrend(data: DailyCommandCount[]): HistoryTrend {
+  const days = fillEmptyBuckets(data, 'day');
+  const counts = days.map(d => d.count);
+
+  const movingAverage = (index: number, window: number) => {
+    const slice = counts.slice(Math.max(0, index - window + 1), index + 1);
+    return round(slice.reduce((a, b) => a + b, 0) / slice.length);
+  };
+
+  let cumulative = 0;
+  const points = days.map((day, i) => {
+    cumulative += day.count;
+    return {
+      ...day,
+      average7: movingAverage(i, 7),
+      average30: movingAverage(i, 30),
+      cumulative,
+    };
+  });
+
+  return {
+    data: points,
+    trend: {slopePerWeek: round(calculateSlope(counts) * 7)},
+  };
+}
+
+export type AnomalyMethod = 'zscore' | 'mad';
+
+export interface AnomalyOptions {
+  /**
+   * How days are scored against their baseline. `zscore` measures the number
+   * of standard deviations from the mean, `mad` the modified z-score based on
+   * the median absolute deviation, which is less affected by other outliers.
+   */
+  method?: AnomalyMethod;
+  /**
+   * Number of preceding days each day is compared against
+   */
+  window?: number;
+  /**
+   * Days scoring at least this far from zero are anomalies
+   */
+  threshold?: number;
+}
+
+export interface Anomaly extends DailyCommandCount {
+  /**
+   * Positive for busier than usual days and negative for quieter days
+   */
+  score: number;
+  /**
+   * The mean or median of the preceding days the day was scored against
+   */
+  baseline: number;
+  type: 'busy' | 'quiet';
+}
+
+/**
+ * Fewest preceding days a day can be scored against
+ */
+const MIN_BASELINE_DAYS = 7;
+
+/**
+ * Scale factor making the median absolute deviation comparable to a standard
+ * deviation for normally distributed values
+ */
+const MAD_SCALE = 0.6745;
+
+/**
+ * Score a value against a baseline of preceding values. Returns null when the
+ * baseline doesn't vary, as any deviation from it can't be scored.
+ */
+function scoreValue(
+  value: number,
+  baseline: number[],
+  method: AnomalyMethod
+): {score: number; center: number} | null {
+  if (method === 'mad') {
+    const center = median(baseline);
+    const deviation = median(baseline.map(v => Math.abs(v - center)));
+    return deviation > 0
+      ? {score: (MAD_SCALE * (value - center)) / deviation, center}
+      : null;
+  }
+
+  const center = baseline.reduce((a, b) => a + b, 0) / baseline.length;
+  const variance =
+    baseline.reduce((sum, v) => sum + (v - center) ** 2, 0) / baseline.length;
+  return variance > 0 ? {score: (value - center) / Math.sqrt(variance), center} : null;
+}
+
+/**
+ * Find days which are unusually busy or quiet compared to a rolling baseline
+ * of the days before them. Days missing from the series are treated as days
+ * without commands, and days with fewer than a week of history before them
+ * are not scored.
+ */
+export function detectAnomalies(
+  data: DailyCommandCount[],
+  options: AnomalyOptions = {}
+): Anomaly[] {
+  const {method = 'zscore', window = 28, threshold = 3} = options;
+
+  const days = fillEmptyBuckets(data, 'day');
+  const counts = days.map(d => d.count);
+  const anomalies: Anomaly[] = [];
+
+  days.forEach((day, i) => {
+    const baseline = counts.slice(Math.max(0, i - window), i);
+    if (baseline.length < Math.min(MIN_BASELINE_DAYS, window)) {
+      return;
+    }
+
+    const result = scoreValue(day.count, baseline, method);
+    if (result && Math.abs(result.score) >= threshold) {
+      anomalies.push({
+        date: day.date,
+        count: day.count,
+        score: round(result.score),
+        baseline: round(result.center),
+        type: result.score > 0 ? 'busy' : 'quiet',
+      });
+    }
+  });
+
+  return anomalies;
+}
@@ -1,7 +1,8 @@
 import {assert, assertEquals, assertExists} from '@std/assert';
 
 import type {DailyCommandCount} from './db.ts';
-import {generateContributionGraph} from './svg.ts';
+import {calculateStreaks} from './stats.ts';
+import {generateContributionGraph, isValidColor} from './svg.ts';
 
 // Helper to extract SVG dimensions
 function getSvgDimensions(svg: string): {width: number; height: number} {
@@ -249,6 +250,19 @@ Deno.test('generateContributionGraph footer is shown by default', () => {
   assert(svg.includes('60 commands over 3 days'));
 });
 
+Deno.test('generateContributionGraph footer can show streaks', () => {
+  const data: DailyCommandCount[] = [
+    {date: '2024-01-01', count: 10},
+    {date: '2024-01-02', count: 20},
+  ];
+
+  const svg = generateContributionGraph(data, {
+    streaks: calculateStreaks(data, {endDate: '2024-01-02'}),
+  });
+
+  assert(svg.includes('30 commands over 2 days · 2 day streak (longest 2)'));
+});
+
 Deno.test('generateContributionGraph footer can be disabled', () => {
   const data: DailyCommandCount[] = [
     {date: '2024-01-01', count: 10},
@@ -345,3 +359,217 @@ Deno.test('generateContributionGraph footer counts all days for consecutive data
   // Should count all days from Jan 1 to Jan 3 (3 days)
   assert(svg.includes('60 commands over 3 days'));
 });
+
+Deno.test('generateContributionGraph outlines anomalous days', () => {
+  const data: DailyCommandCount[] = [
+    {date: '2024-01-01', count: 10},
+    {date: '2024-01-02', count: 200},
+    {date: '2024-01-03', count: 12},
+  ];
+
+  const svg = generateContributionGraph(data, {
+    textColor: '#123456',
+    anomalies: [{date: '2024-01-02', count: 200, score: 5, baseline: 10, type: 'busy'}],
+  });
+
+  assertEquals(svg.match(/stroke="#123456" stroke-width="1.5"/g)?.length, 1);
+});
+
+Deno.test(
+  'generateContributionGraph labels cells for tooltips and screen readers',
+  () => {
+    const data: DailyCommandCount[] = [
+      {date: '2024-01-01', count: 1},
+      {date: '2024-01-02', count: 1204},
+    ];
+
+    const svg = generateContributionGraph(data);
+
+    assert(svg.includes('role="img"'));
+    assert(svg.includes('<title>Command history contribution graph</title>'));
+    assert(
+      svg.includes(
+        '<desc>1,205 commands from Mon, Jan 1, 2024 to Tue, Jan 2, 2024</desc>'
+      )
+    );
+
+    assert(
+      svg.includes(
+        'data-date="2024-01-01" data-count="1"><title>1 command on Mon, Jan 1, 2024</title></rect>'
+      )
+    );
+    assert(
+      svg.includes(
+        'data-date="2024-01-02" data-count="1204"><title>1,204 commands on Tue, Jan 2, 2024</title></rect>'
+      )
+    );
+  }
+);
+
+Deno.test('generateContributionGraph omits accessible markup when turned off', () => {
+  const data: DailyCommandCount[] = [{date: '2024-01-01', count: 5}];
+
+  const svg = generateContributionGraph(data, {accessible: false});
+
+  assert(!svg.includes('role="img"'));
+  assert(!svg.includes('<title>'));
+  assert(!svg.includes('<desc>'));
+  assert(!svg.includes('data-date'));
+});
+
+Deno.test('generateContributionGraph switches to dark colors with a media query', () => {
+  const data: DailyCommandCount[] = [
+    {date: '2024-01-01', count: 10},
+    {date: '2024-02-01', count: 20},
+  ];
+
+  const svg = generateContributionGraph(data, {
+    textColor: '#57606a',
+    cellBackground: '#ebedf0',
+    darkColors: {baseColor: '#39d353', textColor: '#c9d1d9', cellBackground: '#161b22'},
+  });
+
+  assert(svg.includes('<style>@media (prefers-color-scheme: dark){'));
+  assert(svg.includes('.c0{fill:#161b22}'));
+  assert(svg.includes('.t{fill:#c9d1d9}'));
+  assert(svg.includes('.s{stroke:#c9d1d9C0}'));
+
+  // Light colors stay on the elements for renderers without CSS
+  assert(svg.includes('fill="#ebedf0" class="c0"'));
+  assert(svg.includes('fill="#57606a" class="t"'));
+  assert(svg.includes('class="s"'));
+});
+
+Deno.test('generateContributionGraph only adds classes when given dark colors', () => {
+  const svg = generateContributionGraph([{date: '2024-01-01', count: 10}]);
+
+  assert(!svg.includes('<style>'));
+  assert(!svg.includes('class='));
+});
+
+function generateDays(start: string, end: string): DailyCommandCount[] {
+  const days: DailyCommandCount[] = [];
+  let date = Temporal.PlainDate.from(start);
+  while (Temporal.PlainDate.compare(date, end) <= 0) {
+    days.push({date: date.toString(), count: 5});
+    date = date.add({days: 1});
+  }
+  return days;
+}
+
+function getDimensions(svg: string): {width: number; height: number} {
+  const [, width, height] = svg.match(/<svg width="(\d+)" height="(\d+)"/)!;
+  return {width: Number(width), height: Number(height)};
+}
+
+Deno.test('generateContributionGraph stacks a strip for each year', () => {
+  const data = generateDays('2023-10-01', '2025-03-31');
+
+  const horizontal = generateContributionGraph(data);
+  const stacked = generateContributionGraph(data, {layout: 'stacked'});
+
+  // One year label and set of day labels per strip
+  assert(stacked.includes('>2023</text>'));
+  assert(stacked.includes('>2024</text>'));
+  assert(stacked.includes('>2025</text>'));
+  assertEquals(
+    countElements(stacked, 'text'),
+    countElements(horizontal, 'text') + 3 + 14
+  );
+
+  // Every day is still drawn, along with the month separators
+  assertEquals(countElements(stacked, 'rect'), countElements(horizontal, 'rect'));
+  assertEquals(countElements(stacked, 'path'), countElements(horizontal, 'path') - 2);
+
+  // No wider than a year
+  assert(getDimensions(stacked).width < getDimensions(horizontal).width);
+  assert(getDimensions(stacked).width <= 30 + 54 * 15 + 10);
+});
+
+Deno.test('generateContributionGraph aligns stacked years on January 1st', () => {
+  const svg = generateContributionGraph(generateDays('2024-06-01', '2025-01-31'), {
+    layout: 'stacked',
+  });
+
+  const getX = (date: string) =>
+    Number(svg.match(new RegExp(`<rect x="(\\d+)"[^>]*data-date="${date}"`))![1]);
+
+  // Both years start their grid at the left margin
+  assertEquals(getX('2025-01-01'), 30);
+  assertEquals(getX('2024-06-01'), 30 + 21 * 15);
+});
+
+Deno.test('generateContributionGraph lays out weeks as rows vertically', () => {
+  const data = generateDays('2024-01-01', '2024-06-30');
+
+  const horizontal = generateContributionGraph(data);
+  const vertical = generateContributionGraph(data, {layout: 'vertical'});
+
+  assert(vertical.includes('matrix(0 1 1 0 0 0)'));
+  assertEquals(countElements(vertical, 'rect'), countElements(horizontal, 'rect'));
+  assertEquals(countElements(vertical, 'path'), countElements(horizontal, 'path'));
+
+  const {width, height} = getDimensions(vertical);
+  assert(width < height);
+  assert(vertical.includes('>910 commands over 182 days</text>'));
+});
+
+Deno.test('generateContributionGraph starts weeks on the given day', () => {
+  // 2024-01-01 is a Monday
+  const data = generateDays('2024-01-01', '2024-01-14');
+
+  const sunday = generateContributionGraph(data, {showMonthLabels: false});
+  const monday = generateContributionGraph(data, {
+    showMonthLabels: false,
+    weekStart: 'monday',
+  });
+
+  const getY = (svg: string, date: string) =>
+    Number(
+      svg.match(new RegExp(`<rect x="\\d+" y="(\\d+)"[^>]*data-date="${date}"`))![1]
+    );
+
+  assertEquals(getY(sunday, '2024-01-01'), 10 + 15);
+  assertEquals(getY(monday, '2024-01-01'), 10);
+
+  // A padding cell for the Sunday before is only needed when weeks start on Sunday
+  assert(sunday.includes('data-date="2023-12-31"'));
+  assert(!monday.includes('data-date="2023-12-31"'));
+
+  // Day labels follow the week start
+  const dayLabels = (svg: string) =>
+    [...svg.matchAll(/dominant-baseline="middle">(\w)<\/text>/g)].map(m => m[1]).join('');
+
+  assertEquals(dayLabels(sunday), 'SMTWTFS');
+  assertEquals(dayLabels(monday), 'MTWTFSS');
+});
+
+Deno.test('generateContributionGraph localizes labels', () => {
+  const data = generateDays('2024-01-01', '2024-03-31');
+
+  const svg = generateContributionGraph(data, {locale: 'de-DE', weekStart: 'monday'});
+
+  assert(svg.includes('>Jan</text>'));
+  assert(svg.includes('>Feb</text>'));
+  assert(svg.includes('>Mär</text>'));
+  assert(svg.includes('>M</text>'));
+  assert(svg.includes('>D</text>'));
+  assert(svg.includes('on Mo., 1. Jan. 2024</title>'));
+});
+
+Deno.test('generateContributionGraph keeps the footer in English', () => {
+  const svg = generateContributionGraph([{date: '2024-01-01', count: 1204}], {
+    locale: 'de-DE',
+  });
+
+  assert(svg.includes('>Less</text>'));
+  assert(svg.includes('>1,204 commands over 1 days</text>'));
+});
+
+Deno.test('isValidColor accepts CSS colors only', () => {
+  assert(isValidColor('#fb7185'));
+  assert(isValidColor('rgb(1, 2, 3)'));
+  assert(isValidColor('rebeccapurple'));
+  assert(!isValidColor('notacolor'));
+  assert(!isValidColor('"/><script>alert(1)</script>'));
+});
@@ -1,6 +1,9 @@
 import chroma from 'npm:chroma-js@2.6.0';
 
 import type {DailyCommandCount} from './db.ts';
+import type {Anomaly, StreakStats} from './stats.ts';
+import type {ThemeColors} from './themes.ts';
+import {DEFAULT_WEEK_START, escapeXml, type Weekday, WEEKDAYS} from './utils.ts';
 
 const DAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
 
@@ -19,17 +22,72 @@ const MONTHS = [
   'dec',
 ];
 
-export interface SvgOptions {
+/**
+ * How the weeks of the graph are arranged. `horizontal` draws the weeks as
+ * columns in a single strip, `stacked` draws a strip for each calendar year
+ * and `vertical` draws the weeks as rows.
+ */
+export type GraphLayout = 'horizontal' | 'stacked' | 'vertical';
+
+/**
+ * Size, color and label options shared by each of the SVG renderers
+ */
+export interface SvgStyleOptions {
   cellSize?: number;
   cellGap?: number;
-  showMonthLabels?: boolean;
   showDayLabels?: boolean;
-  showFooter?: boolean;
   baseColor?: string;
   textColor?: string;
   cellBackground?: string;
+  /**
+   * Colors to switch to when the viewer prefers a dark color scheme. The
+   * colors above are used otherwise.
+   */
+  darkColors?: ThemeColors;
 }
 
+export interface SvgOptions extends SvgStyleOptions {
+  showMonthLabels?: boolean;
+  showFooter?: boolean;
+  /**
+   * Streak statistics to show alongside the totals in the footer
+   */
+  streaks?: StreakStats;
+  /**
+   * Unusually busy or quiet days to outline in the grid
+   */
+  anomalies?: Anomaly[];
+  /**
+   * Label the graph and each of its cells with the date and number of
+   * commands, for tooltips and screen readers. Can be turned off to reduce the
+   * size of the SVG.
+   */
+  accessible?: boolean;
+  layout?: GraphLayout;
+  /**
+   * The day of the week at the top of each column (default: sunday)
+   */
+  weekStart?: Weekday;
+  /**
+   * Locale used for month and day labels and the dates of cell labels, e.g.
+   * `de-DE`. Labels are in English when omitted. The rest of the text,
+   * including the footer and the number of commands, is always in English.
+   */
+  locale?: string;
+}
+
+/**
+ * Width of the footer's legend, from the "Less" label through the "More" label
+ */
+const LEGEND_WIDTH = 170;
+
+const FOOTER_LINE_HEIGHT = 16;
+
+/**
+ * Approximate width of a character of the 11px monospace footer text
+ */
+const FOOTER_CHAR_WIDTH = 6.6;
+
 interface Cell {
   date: string;
   count: number;
@@ -47,6 +105,28 @@ interface Dimensions {
   graphHeight: number;
 }
 
+/**
+ * Render a style block restyling the classed elements of a chart with another
+ * palette when the viewer prefers a dark color scheme. The light colors stay
+ * on the elements as presentation attributes, which CSS rules take precedence
+ * over.
+ */
+export function renderDarkModeStyle(colors: ThemeColors): string {
+  const getColor = createColorScale(colors.baseColor, colors.cellBackground);
+
+  let rules = '';
+  for (let intensity = 0; intensity <= 9; intensity++) {
+    rules += `.c${intensity}{fill:${getColor(intensity)}}`;
+  }
+  rules += `.t{fill:${colors.textColor}}`;
+  rules += `.o{stroke:${colors.textColor}}`;
+  rules += `.s{stroke:${getSeparatorColor(colors.textColor)}}`;
+  rules += `.a{fill:${colors.baseColor}}`;
+  rules += `.e{stroke:${colors.cellBackground}}`;
+
+  return `<style>@media (prefers-color-scheme: dark){${rules}}</style>`;
+}
+
 /**
  * Calculate intensity values for each date using logarithmic scale with percentile-based thresholds
  */
@@ -121,20 +201,23 @@ function calculateIntensityMap(data: DailyCommandCount[]): Map<string, number> {
 }
 
 /**
- * Generate a continuous grid of cells from first Sunday through last date
+ * Generate a continuous grid of cells from the first week start through last date
  */
 function generateCells(
   data: DailyCommandCount[],
   intensityMap: Map<string, number>,
   cellSize: number,
-  cellGap: number
+  cellGap: number,
+  weekStart: Weekday
 ): Cell[] {
-  // Start from the first Sunday on or before the first data point
+  const weekStartDay = WEEKDAYS.indexOf(weekStart);
+
+  // Start from the first week start on or before the first data point
   const firstDate = new Date(data[0].date);
   const startDate = new Date(firstDate);
-  const firstDayOfWeek = startDate.getDay();
-  if (firstDayOfWeek !== 0) {
-    startDate.setDate(startDate.getDate() - firstDayOfWeek);
+  const firstRow = (startDate.getDay() - weekStartDay + 7) % 7;
+  if (firstRow !== 0) {
+    startDate.setDate(startDate.getDate() - firstRow);
   }
 
   const lastDate = new Date(data[data.length - 1].date);
@@ -146,7 +229,7 @@ function generateCells(
 
   while (currentDate <= lastDate) {
     const dateStr = currentDate.toISOString().split('T')[0];
-    const dayOfWeek = currentDate.getDay();
+    const row = (currentDate.getDay() - weekStartDay + 7) % 7;
 
     const dataPoint = dataMap.get(dateStr);
     const count = dataPoint?.count ?? 0;
@@ -156,11 +239,11 @@ function generateCells(
       date: dateStr,
       count,
       x: weekIndex * (cellSize + cellGap),
-      y: dayOfWeek * (cellSize + cellGap),
+      y: row * (cellSize + cellGap),
       intensity,
     });
 
-    if (dayOfWeek === 6) {
+    if (row === 6) {
       weekIndex++;
     }
 
@@ -200,32 +283,108 @@ function calculateDimensions(
   };
 }
 
+/**
+ * Class attribute used to restyle an element for a dark color scheme. Only
+ * added to themed charts to keep the size of other charts down.
+ */
+export function classAttr(name: string, themed: boolean): string {
+  return themed ? ` class="${name}"` : '';
+}
+
+interface GraphLabels {
+  /**
+   * Day of week labels, in the order of the rows of the grid
+   */
+  days: string[];
+  months: string[];
+}
+
+/**
+ * Get the day and month labels of the graph, localized with Intl when a
+ * locale is given
+ */
+function getGraphLabels(weekStart: Weekday, locale?: string): GraphLabels {
+  const weekStartDay = WEEKDAYS.indexOf(weekStart);
+
+  let days = DAYS;
+  let months = MONTHS;
+
+  if (locale) {
+    const dayFormat = new Intl.DateTimeFormat(locale, {
+      weekday: 'narrow',
+      timeZone: 'UTC',
+    });
+    const monthFormat = new Intl.DateTimeFormat(locale, {
+      month: 'short',
+      timeZone: 'UTC',
+    });
+
+    // January 7th 2024 was a Sunday
+    days = DAYS.map((_, day) => dayFormat.format(Date.UTC(2024, 0, 7 + day)));
+    months = MONTHS.map((_, month) => monthFormat.format(Date.UTC(2024, month, 1)));
+  }
+
+  return {
+    days: days.map((_, i) => escapeXml(days[(weekStartDay + i) % 7])),
+    months: months.map(escapeXml),
+  };
+}
+
 /**
  * Render day of week labels
  */
 function renderDayLabels(
-  dims: Dimensions,
+  labels: string[],
+  leftMargin: number,
+  topMargin: number,
   cellSize: number,
   cellGap: number,
-  textColor: string
+  textColor: string,
+  themed: boolean
 ): string {
   let svg = '';
 
-  DAYS.forEach((day, i) => {
-    const y = dims.topMargin + i * (cellSize + cellGap) + cellSize / 2;
-    const x = dims.leftMargin - 18;
-    svg += `<text x="${x}" y="${y}" fill="${textColor}" font-size="10" font-family="monospace" dominant-baseline="middle">${day}</text>`;
+  labels.forEach((day, i) => {
+    const y = topMargin + i * (cellSize + cellGap) + cellSize / 2;
+    const x = leftMargin - 18;
+    svg += `<text x="${x}" y="${y}" fill="${textColor}"${classAttr('t', themed)} font-size="10" font-family="monospace" dominant-baseline="middle">${day}</text>`;
   });
 
   return svg;
 }
 
 /**
- * Render month labels
+ * Render day of week labels across the top of a vertical graph
  */
-function renderMonthLabels(cells: Cell[], leftMargin: number, textColor: string): string {
+function renderColumnDayLabels(
+  labels: string[],
+  leftMargin: number,
+  topMargin: number,
+  cellSize: number,
+  cellGap: number,
+  textColor: string,
+  themed: boolean
+): string {
+  let svg = '';
+
+  labels.forEach((day, i) => {
+    const x = leftMargin + i * (cellSize + cellGap) + cellSize / 2;
+    const y = topMargin - 6;
+    svg += `<text x="${x}" y="${y}" fill="${textColor}"${classAttr('t', themed)} font-size="10" font-family="monospace" text-anchor="middle">${day}</text>`;
+  });
+
+  return svg;
+}
+
+/**
+ * Find the week column each month starts in
+ */
+function getMonthPositions(
+  cells: Cell[],
+  labels: string[]
+): Array<{month: string; offset: number; day: number}> {
   let currentMonth = -1;
-  const monthPositions: Array<{month: string; x: number; day: number}> = [];
+  const monthPositions: Array<{month: string; offset: number; day: number}> = [];
 
   cells.forEach(cell => {
     const date = new Date(cell.date);
@@ -235,8 +394,8 @@ function renderMonthLabels(cells: Cell[], leftMargin: number, textColor: string)
     if (month !== currentMonth) {
       currentMonth = month;
       monthPositions.push({
-        month: MONTHS[month],
-        x: leftMargin + cell.x,
+        month: labels[month],
+        offset: cell.x,
         day,
       });
     }
@@ -248,35 +407,111 @@ function renderMonthLabels(cells: Cell[], leftMargin: number, textColor: string)
     monthPositions.shift();
   }
 
-  return monthPositions
+  return monthPositions;
+}
+
+/**
+ * Render month labels above the grid
+ */
+function renderMonthLabels(
+  cells: Cell[],
+  labels: string[],
+  leftMargin: number,
+  y: number,
+  textColor: string,
+  themed: boolean
+): string {
+  return getMonthPositions(cells, labels)
     .map(
       pos =>
-        `<text x="${pos.x}" y="12" fill="${textColor}" font-size="10" font-family="monospace">${pos.month}</text>`
+        `<text x="${leftMargin + pos.offset}" y="${y}" fill="${textColor}"${classAttr('t', themed)} font-size="10" font-family="monospace">${pos.month}</text>`
     )
     .join('');
 }
 
 /**
- * Render cell rectangles
+ * Render month labels to the left of the rows of a vertical graph
+ */
+function renderRowMonthLabels(
+  cells: Cell[],
+  labels: string[],
+  topMargin: number,
+  cellSize: number,
+  textColor: string,
+  themed: boolean
+): string {
+  return getMonthPositions(cells, labels)
+    .map(
+      pos =>
+        `<text x="4" y="${topMargin + pos.offset + cellSize / 2}" fill="${textColor}"${classAttr('t', themed)} font-size="10" font-family="monospace" dominant-baseline="middle">${pos.month}</text>`
+    )
+    .join('');
+}
+
+/**
+ * Format a date for cell and graph labels (e.g. "Mon, Jan 1, 2024")
+ */
+function formatLabelDate(date: string, locale = 'en-US'): string {
+  return Temporal.PlainDate.from(date).toLocaleString(locale, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+/**
+ * Describe a number of commands, e.g. "1 command" or "1,204 commands"
+ */
+function formatCommands(count: number): string {
+  return `${count.toLocaleString('en-US')} ${count === 1 ? 'command' : 'commands'}`;
+}
+
+/**
+ * Render cell rectangles, outlining the cells of anomalous days. Accessible
+ * cells carry their date and count as data attributes and a title.
  */
 function renderCells(
   cells: Cell[],
   leftMargin: number,
   topMargin: number,
   cellSize: number,
-  getColor: (intensity: number) => string
+  getColor: (intensity: number) => string,
+  anomalies: Set<string>,
+  outlineColor: string,
+  accessible: boolean,
+  themed: boolean,
+  locale?: string
 ): string {
   return cells
     .map(cell => {
       const color = getColor(cell.intensity);
       const x = leftMargin + cell.x;
       const y = topMargin + cell.y;
+      const isAnomaly = anomalies.has(cell.date);
+      const outline = isAnomaly ? ` stroke="${outlineColor}" stroke-width="1.5"` : '';
+      const className = `c${cell.intensity}${isAnomaly ? ' o' : ''}`;
+
+      const rect = `<rect x="${x}" y="${y}" width="${cellSize}" height="${cellSize}" fill="${color}"${classAttr(className, themed)} rx="2"${outline}`;
 
-      return `<rect x="${x}" y="${y}" width="${cellSize}" height="${cellSize}" fill="${color}" rx="2"/>`;
+      if (!accessible) {
+        return `${rect}/>`;
+      }
+
+      return `${rect} data-date="${cell.date}" data-count="${cell.count}"><title>${formatCommands(cell.count)} on ${formatLabelDate(cell.date, locale)}</title></rect>`;
     })
     .join('\n');
 }
 
+/**
+ * Convert the text color to 75% opacity for month separators
+ */
+function getSeparatorColor(textColor: string): string {
+  return textColor.startsWith('#')
+    ? `${textColor}C0` // Add C0 hex (75% opacity) to hex colors
+    : textColor.replace('rgb(', 'rgba(').replace(')', ', 0.75)');
+}
+
 /**
  * Render month separator lines that weave through the grid
  */
@@ -286,7 +521,8 @@ function renderMonthSeparators(
   topMargin: number,
   cellSize: number,
   cellGap: number,
-  textColor: string
+  textColor: string,
+  themed: boolean
 ): string {
   if (cells.length === 0) {
     return '';
@@ -325,10 +561,7 @@ function renderMonthSeparators(
   const cellBorderRadius = 2;
   const radius = cellBorderRadius + cellGap / 2;
 
-  // Convert textColor to 75% opacity
-  const strokeColor = textColor.startsWith('#')
-    ? `${textColor}C0` // Add C0 hex (75% opacity) to hex colors
-    : textColor.replace('rgb(', 'rgba(').replace(')', ', 0.75)');
+  const strokeColor = getSeparatorColor(textColor);
 
   // For each pair of consecutive months, draw a separator
   for (let i = 0; i < sortedMonths.length - 1; i++) {
@@ -409,7 +642,7 @@ function renderMonthSeparators(
       paths.push(
         `<path d="${path.join(
           ' '
-        )}" fill="none" stroke="${strokeColor}" stroke-width="0.5" stroke-linecap="round"/>`
+        )}" fill="none" stroke="${strokeColor}"${classAttr('s', themed)} stroke-width="0.5" stroke-linecap="round"/>`
       );
     }
   }
@@ -418,18 +651,9 @@ function renderMonthSeparators(
 }
 
 /**
- * Render footer with color legend and statistics
+ * Describe the totals of the graph for the footer
  */
-function renderFooter(
-  data: DailyCommandCount[],
-  dims: Dimensions,
-  textColor: string,
-  getColor: (intensity: number) => string
-): string {
-  const footerY = dims.topMargin + dims.graphHeight + 18;
-  const legendSquareSize = 10;
-  const legendGap = 3;
-
+function getFooterStatsText(data: DailyCommandCount[], streaks?: StreakStats): string {
   // Calculate total commands and days
   const totalCommands = data.reduce((sum, d) => sum + d.count, 0);
 
@@ -439,13 +663,39 @@ function renderFooter(
   const totalDays =
     Math.floor((lastDate.getTime() - firstDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
 
+  let statsText = `${totalCommands.toLocaleString('en-US')} commands over ${totalDays} days`;
+  if (streaks) {
+    const longest = streaks.longestStreak?.days ?? 0;
+    statsText += ` · ${streaks.currentStreak} day streak (longest ${longest})`;
+  }
+
+  return statsText;
+}
+
+/**
+ * Render footer with color legend and statistics. Compact footers put the
+ * statistics on a line below the legend, for narrow graphs.
+ */
+function renderFooter(
+  data: DailyCommandCount[],
+  dims: Dimensions,
+  textColor: string,
+  getColor: (intensity: number) => string,
+  themed: boolean,
+  compact: boolean,
+  streaks?: StreakStats
+): string {
+  const footerY = dims.topMargin + dims.graphHeight + 18;
+  const legendSquareSize = 10;
+  const legendGap = 3;
+
   let svg = '';
 
   // Legend on the left
   const legendX = dims.leftMargin;
 
   // "Less" label
-  svg += `<text x="${legendX}" y="${footerY}" fill="${textColor}" font-size="11" font-family="monospace" dominant-baseline="middle">Less</text>`;
+  svg += `<text x="${legendX}" y="${footerY}" fill="${textColor}"${classAttr('t', themed)} font-size="11" font-family="monospace" dominant-baseline="middle">Less</text>`;
 
   // Color squares - show intensity levels 0, 1, 3, 5, 6, 7, 8, 9
   const intensities = [0, 1, 3, 5, 6, 7, 8, 9];
@@ -455,21 +705,248 @@ function renderFooter(
     const x = squaresStartX + i * (legendSquareSize + legendGap);
     const y = footerY - legendSquareSize / 2;
     const color = getColor(intensity);
-    svg += `<rect x="${x}" y="${y}" width="${legendSquareSize}" height="${legendSquareSize}" fill="${color}" rx="2"/>`;
+    svg += `<rect x="${x}" y="${y}" width="${legendSquareSize}" height="${legendSquareSize}" fill="${color}"${classAttr(`c${intensity}`, themed)} rx="2"/>`;
   });
 
   // "More" label
   const moreX = squaresStartX + intensities.length * (legendSquareSize + legendGap) + 5;
-  svg += `<text x="${moreX}" y="${footerY}" fill="${textColor}" font-size="11" font-family="monospace" dominant-baseline="middle">More</text>`;
+  svg += `<text x="${moreX}" y="${footerY}" fill="${textColor}"${classAttr('t', themed)} font-size="11" font-family="monospace" dominant-baseline="middle">More</text>`;
+
+  const statsText = getFooterStatsText(data, streaks);
+
+  if (compact) {
+    svg += `<text x="${legendX}" y="${footerY + FOOTER_LINE_HEIGHT}" fill="${textColor}"${classAttr('t', themed)} font-size="11" font-family="monospace" dominant-baseline="middle">${statsText}</text>`;
+    return svg;
+  }
 
   // Statistics on the right
-  const statsText = `${totalCommands.toLocaleString()} commands over ${totalDays} days`;
   const statsX = dims.width - 10;
-  svg += `<text x="${statsX}" y="${footerY}" fill="${textColor}" font-size="11" font-family="monospace" dominant-baseline="middle" text-anchor="end">${statsText}</text>`;
+  svg += `<text x="${statsX}" y="${footerY}" fill="${textColor}"${classAttr('t', themed)} font-size="11" font-family="monospace" dominant-baseline="middle" text-anchor="end">${statsText}</text>`;
 
   return svg;
 }
 
+/**
+ * The cells of a graph along with what's needed to lay them out
+ */
+interface LayoutContext {
+  cells: Cell[];
+  cellSize: number;
+  cellGap: number;
+  showDayLabels: boolean;
+  showMonthLabels: boolean;
+  showFooter: boolean;
+  textColor: string;
+  themed: boolean;
+  labels: GraphLabels;
+  /**
+   * Render cells along with their month separators, offset by the given
+   * margins
+   */
+  renderGrid: (cells: Cell[], leftMargin: number, topMargin: number) => string;
+}
+
+interface Layout {
+  dims: Dimensions;
+  svg: string;
+}
+
+/**
+ * Lay out the weeks as columns of a single strip
+ */
+function layoutHorizontal(context: LayoutContext): Layout {
+  const {cells, cellSize, cellGap, textColor, themed, labels} = context;
+  const dims = calculateDimensions(
+    cells,
+    cellSize,
+    cellGap,
+    context.showDayLabels,
+    context.showMonthLabels,
+    context.showFooter
+  );
+
+  let svg = '';
+
+  if (context.showDayLabels) {
+    svg += renderDayLabels(
+      labels.days,
+      dims.leftMargin,
+      dims.topMargin,
+      cellSize,
+      cellGap,
+      textColor,
+      themed
+    );
+  }
+
+  if (context.showMonthLabels) {
+    svg += renderMonthLabels(
+      cells,
+      labels.months,
+      dims.leftMargin,
+      12,
+      textColor,
+      themed
+    );
+  }
+
+  svg += context.renderGrid(cells, dims.leftMargin, dims.topMargin);
+
+  return {dims, svg};
+}
+
+/**
+ * Lay out a strip for each calendar year, one above the other and labelled
+ * with the year. The columns of each strip are aligned so that the months of
+ * each year line up.
+ */
+function layoutStacked(context: LayoutContext, firstDate: string): Layout {
+  const {cells, cellSize, cellGap, textColor, themed, labels} = context;
+  const step = cellSize + cellGap;
+
+  const leftMargin = context.showDayLabels ? 30 : 10;
+  const topMargin = 6;
+  const bottomMargin = context.showFooter ? 35 : 10;
+
+  // Each strip has a line for its year label, and another for month labels
+  const headerHeight = context.showMonthLabels ? 38 : 22;
+  const stripHeight = headerHeight + 7 * step;
+  const stripGap = 10;
+
+  // Cells leading up to the first date belong to the first year's strip
+  const firstYear = Temporal.PlainDate.from(firstDate).year;
+  const years = new Map<number, Cell[]>();
+  cells.forEach(cell => {
+    const year = Math.max(Temporal.PlainDate.from(cell.date).year, firstYear);
+    if (!years.has(year)) {
+      years.set(year, []);
+    }
+    years.get(year)!.push(cell);
+  });
+
+  const gridStart = Temporal.PlainDate.from(cells[0].date);
+  let graphWidth = 0;
+  let stripTop = topMargin;
+  let svg = '';
+
+  years.forEach((yearCells, year) => {
+    // Shift the year so that the week of January 1st is the first column
+    const daysToYear = gridStart.until(
+      Temporal.PlainDate.from({year, month: 1, day: 1})
+    ).days;
+    const shift = Math.floor(daysToYear / 7) * step;
+    const stripCells = yearCells.map(cell => ({...cell, x: cell.x - shift}));
+
+    const gridTop = stripTop + headerHeight;
+    graphWidth = Math.max(graphWidth, ...stripCells.map(c => c.x + step));
+
+    svg += `<text x="${leftMargin}" y="${stripTop + 14}" fill="${textColor}"${classAttr('t', themed)} font-size="11" font-weight="bold" font-family="monospace">${year}</text>`;
+
+    if (context.showDayLabels) {
+      svg += renderDayLabels(
+        labels.days,
+        leftMargin,
+        gridTop,
+        cellSize,
+        cellGap,
+        textColor,
+        themed
+      );
+    }
+
+    if (context.showMonthLabels) {
+      svg += renderMonthLabels(
+        stripCells,
+        labels.months,
+        leftMargin,
+        stripTop + 30,
+        textColor,
+        themed
+      );
+    }
+
+    svg += context.renderGrid(stripCells, leftMargin, gridTop);
+
+    stripTop += stripHeight + stripGap;
+  });
+
+  const graphHeight = years.size * stripHeight + (years.size - 1) * stripGap;
+
+  return {
+    dims: {
+      width: leftMargin + graphWidth + 10,
+      height: topMargin + graphHeight + bottomMargin,
+      leftMargin,
+      topMargin,
+      graphWidth,
+      graphHeight,
+    },
+    svg,
+  };
+}
+
+/**
+ * Lay out the weeks as rows, for narrow spaces. The grid is transposed as a
+ * whole so that the month separators follow it, with the labels placed
+ * around it. The footer is laid out compactly below, so the graph is widened
+ * to fit its text when needed.
+ */
+function layoutVertical(context: LayoutContext, footerText: string): Layout {
+  const {cells, cellSize, cellGap, textColor, themed, labels} = context;
+  const step = cellSize + cellGap;
+
+  const leftMargin = context.showMonthLabels ? 30 : 10;
+  const topMargin = context.showDayLabels ? 20 : 10;
+  const bottomMargin = context.showFooter ? 35 + FOOTER_LINE_HEIGHT : 10;
+
+  const graphWidth = 7 * step;
+  const graphHeight = Math.max(...cells.map(c => c.x)) + step;
+  const footerWidth = context.showFooter
+    ? Math.max(LEGEND_WIDTH, Math.ceil(footerText.length * FOOTER_CHAR_WIDTH))
+    : 0;
+
+  let svg = '';
+
+  if (context.showDayLabels) {
+    svg += renderColumnDayLabels(
+      labels.days,
+      leftMargin,
+      topMargin,
+      cellSize,
+      cellGap,
+      textColor,
+      themed
+    );
+  }
+
+  if (context.showMonthLabels) {
+    svg += renderRowMonthLabels(
+      cells,
+      labels.months,
+      topMargin,
+      cellSize,
+      textColor,
+      themed
+    );
+  }
+
+  svg += `<g transform="translate(${leftMargin} ${topMargin}) matrix(0 1 1 0 0 0)">`;
+  svg += context.renderGrid(cells, 0, 0);
+  svg += '</g>';
+
+  return {
+    dims: {
+      width: leftMargin + Math.max(graphWidth, footerWidth) + 10,
+      height: topMargin + graphHeight + bottomMargin,
+      leftMargin,
+      topMargin,
+      graphWidth,
+      graphHeight,
+    },
+    svg,
+  };
+}
+
 /**
  * Generate a GitHub-style contribution graph SVG from daily command counts
  */
@@ -486,6 +963,13 @@ export function generateContributionGraph(
     baseColor = '#fb7185',
     textColor = '#57606a',
     cellBackground = '#ebedf0',
+    streaks,
+    anomalies = [],
+    accessible = true,
+    darkColors,
+    layout = 'horizontal',
+    weekStart = DEFAULT_WEEK_START,
+    locale,
   } = options;
 
   // If no data, generate a year's worth of empty cells
@@ -507,40 +991,73 @@ export function generateContributionGraph(
   }
 
   const intensityMap = calculateIntensityMap(processedData);
-  const cells = generateCells(processedData, intensityMap, cellSize, cellGap);
-  const dims = calculateDimensions(
+  const cells = generateCells(processedData, intensityMap, cellSize, cellGap, weekStart);
+
+  const getColor = createColorScale(baseColor, cellBackground);
+  const themed = darkColors !== undefined;
+  const anomalyDates = new Set(anomalies.map(a => a.date));
+
+  const context: LayoutContext = {
     cells,
     cellSize,
     cellGap,
     showDayLabels,
     showMonthLabels,
-    showFooter
-  );
+    showFooter,
+    textColor,
+    themed,
+    labels: getGraphLabels(weekStart, locale),
+    renderGrid: (gridCells, left, top) =>
+      renderCells(
+        gridCells,
+        left,
+        top,
+        cellSize,
+        getColor,
+        anomalyDates,
+        textColor,
+        accessible,
+        themed,
+        locale
+      ) +
+      renderMonthSeparators(gridCells, left, top, cellSize, cellGap, textColor, themed),
+  };
 
-  const getColor = createColorScale(baseColor, cellBackground);
+  const graph =
+    layout === 'stacked'
+      ? layoutStacked(context, processedData[0].date)
+      : layout === 'vertical'
+        ? layoutVertical(context, getFooterStatsText(processedData, streaks))
+        : layoutHorizontal(context);
+  const {dims} = graph;
+
+  let svg = `<svg width="${dims.width}" height="${dims.height}" xmlns="http://www.w3.org/2000/svg"${accessible ? ' role="img"' : ''}>`;
 
-  let svg = `<svg width="${dims.width}" height="${dims.height}" xmlns="http://www.w3.org/2000/svg">`;
+  if (accessible) {
+    const total = processedData.reduce((sum, d) => sum + d.count, 0);
+    const firstDate = processedData[0].date;
+    const lastDate = processedData[processedData.length - 1].date;
 
-  if (showDayLabels) {
-    svg += renderDayLabels(dims, cellSize, cellGap, textColor);
+    svg += '<title>Command history contribution graph</title>';
+    svg += `<desc>${formatCommands(total)} from ${formatLabelDate(firstDate, locale)} to ${formatLabelDate(lastDate, locale)}</desc>`;
   }
 
-  if (showMonthLabels) {
-    svg += renderMonthLabels(cells, dims.leftMargin, textColor);
+  if (darkColors) {
+    svg += renderDarkModeStyle(darkColors);
   }
 
-  svg += renderCells(cells, dims.leftMargin, dims.topMargin, cellSize, getColor);
-  svg += renderMonthSeparators(
-    cells,
-    dims.leftMargin,
-    dims.topMargin,
-    cellSize,
-    cellGap,
-    textColor
-  );
+  svg += graph.svg;
 
   if (showFooter) {
-    svg += renderFooter(processedData, dims, textColor, getColor);
+    svg += renderFooter(
+      processedData,
+      dims,
+      textColor,
+      getColor,
+      themed,
+      layout === 'vertical',
+      streaks
+    );
   }
 
   svg += '</svg>';
@@ -548,11 +1065,29 @@ export function generateContributionGraph(
   return svg;
 }
 
+/**
+ * Map a value onto the intensity levels (1-9) of the color scale, relative to
+ * the largest value being charted
+ */
+export function getRelativeIntensity(value: number, max: number): number {
+  if (value === 0 || max === 0) {
+    return 0;
+  }
+  return Math.max(1, Math.ceil((value / max) * 9));
+}
+
+/**
+ * Check that a color can be parsed, and so is safe to use in SVG attributes
+ */
+export function isValidColor(color: string): boolean {
+  return chroma.valid(color);
+}
+
 /**
  * Generate a perceptually uniform color scale optimized for both dark and light colors
  * Uses Oklch color space with background blending for smooth transitions
  */
-function createColorScale(
+export function createColorScale(
   baseColor: string,
   cellBackground: string
 ): (intensity: number) => string {
@@ -0,0 +1,25 @@
+import {assert, assertEquals} from '@std/assert';
+
+import {AUTO_THEMES, isThemeName, THEMES} from './themes.ts';
+
+Deno.test('isThemeName recognizes named themes', () => {
+  assert(isThemeName('github-dark'));
+  assert(isThemeName('nord'));
+  assert(!isThemeName('auto'));
+  assert(!isThemeName('toString'));
+});
+
+Deno.test('themes preset each of the colors', () => {
+  for (const colors of Object.values(THEMES)) {
+    assertEquals(Object.keys(colors).sort(), [
+      'baseColor',
+      'cellBackground',
+      'textColor',
+    ]);
+  }
+});
+
+Deno.test('the auto themes pair a light and dark theme', () => {
+  assert(isThemeName(AUTO_THEMES.light));
+  assert(isThemeName(AUTO_THEMES.dark));
+});
@@ -0,0 +1,41 @@
+export interface ThemeColors {
+  baseColor: string;
+  textColor: string;
+  cellBackground: string;
+}
+
+/**
+ * Named color presets for the SVG renderers
+ */
+export const THEMES = {
+  light: {baseColor: '#fb7185', textColor: '#57606a', cellBackground: '#ebedf0'},
+  dark: {baseColor: '#fb7185', textColor: '#c9d1d9', cellBackground: '#161b22'},
+  'github-light': {baseColor: '#216e39', textColor: '#57606a', cellBackground: '#ebedf0'},
+  'github-dark': {baseColor: '#39d353', textColor: '#c9d1d9', cellBackground: '#161b22'},
+  dracula: {baseColor: '#ff79c6', textColor: '#f8f8f2', cellBackground: '#44475a'},
+  nord: {baseColor: '#88c0d0', textColor: '#d8dee9', cellBackground: '#3b4252'},
+  'solarized-light': {
+    baseColor: '#268bd2',
+    textColor: '#657b83',
+    cellBackground: '#eee8d5',
+  },
+  'solarized-dark': {
+    baseColor: '#2aa198',
+    textColor: '#93a1a1',
+    cellBackground: '#073642',
+  },
+} satisfies Record<string, ThemeColors>;
+
+export type ThemeName = keyof typeof THEMES;
+
+/**
+ * The themes used in light and dark mode for `theme=auto`
+ */
+export const AUTO_THEMES: {light: ThemeName; dark: ThemeName} = {
+  light: 'light',
+  dark: 'dark',
+};
+
+export function isThemeName(name: string): name is ThemeName {
+  return Object.hasOwn(THEMES, name);
+}
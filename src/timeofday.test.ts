@@ -0,0 +1,67 @@
+import {assert, assertEquals} from '@std/assert';
+
+import {generateTimeOfDayChart} from './timeofday.ts';
+
+function countElements(svg: string, tagName: string): number {
+  return (svg.match(new RegExp(`<${tagName}`, 'g')) || []).length;
+}
+
+const hourly = Array.from({length: 24}, (_, hour) => (hour >= 9 && hour < 18 ? hour : 0));
+
+Deno.test('generateTimeOfDayChart renders bars by default', () => {
+  const svg = generateTimeOfDayChart({hourly});
+
+  assert(svg.startsWith('<svg'));
+  assert(svg.endsWith('</svg>'));
+
+  // A background track for every hour, plus a bar for the 9 active hours
+  assertEquals(countElements(svg, 'rect'), 24 + 9);
+  assertEquals(countElements(svg, 'path'), 0);
+});
+
+Deno.test('generateTimeOfDayChart renders a radial chart', () => {
+  const svg = generateTimeOfDayChart({hourly}, {style: 'radial'});
+
+  assertEquals(countElements(svg, 'path'), 24 + 9);
+  assertEquals(countElements(svg, 'rect'), 0);
+  assert(svg.includes('>6a<'));
+  assert(svg.includes('>6p<'));
+});
+
+Deno.test('generateTimeOfDayChart labels the peak hour', () => {
+  assert(generateTimeOfDayChart({hourly}).includes('peak 5p-6p · 17/day'));
+  assert(
+    generateTimeOfDayChart({hourly: new Array(24).fill(0)}, {style: 'radial'}).includes(
+      'no commands'
+    )
+  );
+});
+
+Deno.test('generateTimeOfDayChart respects theming options', () => {
+  const svg = generateTimeOfDayChart(
+    {hourly},
+    {baseColor: '#00ff00', textColor: '#ffffff', cellBackground: '#000000'}
+  );
+
+  assert(svg.includes('fill="#ffffff"'));
+  assert(svg.includes('fill="#000000"'));
+  assert(svg !== generateTimeOfDayChart({hourly}));
+});
+
+Deno.test('generateTimeOfDayChart switches to dark colors with a media query', () => {
+  const darkColors = {
+    baseColor: '#39d353',
+    textColor: '#c9d1d9',
+    cellBackground: '#161b22',
+  };
+
+  for (const style of ['bar', 'radial'] as const) {
+    const svg = generateTimeOfDayChart({hourly}, {style, darkColors});
+
+    assert(svg.includes('<style>@media (prefers-color-scheme: dark){'));
+    assert(svg.includes('.t{fill:#c9d1d9}'));
+    assert(svg.includes('fill="#ebedf0" class="c0"'));
+    assert(svg.includes('fill="#57606a" class="t"'));
+    assert(!generateTimeOfDayChart({hourly}, {style}).includes('class='));
+  }
+});
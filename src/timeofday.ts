@@ -0,0 +1,161 @@
+import type {TimeOfDayStats} from './db.ts';
+import {
+  classAttr,
+  createColorScale,
+  getRelativeIntensity,
+  renderDarkModeStyle,
+  type SvgStyleOptions,
+} from './svg.ts';
+import type {ThemeColors} from './themes.ts';
+import {formatHour} from './utils.ts';
+
+export type TimeOfDayChartStyle = 'bar' | 'radial';
+
+export interface TimeOfDayChartOptions extends Pick<
+  SvgStyleOptions,
+  'baseColor' | 'textColor' | 'cellBackground' | 'darkColors'
+> {
+  style?: TimeOfDayChartStyle;
+}
+
+interface Theme {
+  textColor: string;
+  cellBackground: string;
+  getColor: (intensity: number) => string;
+  darkColors?: ThemeColors;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Describe the busiest hour of the day, e.g. "peak 9a-10a · 4.5/day"
+ */
+function getPeakLabel(hourly: number[]): string {
+  const max = Math.max(0, ...hourly);
+  if (max === 0) {
+    return 'no commands';
+  }
+
+  const peak = hourly.indexOf(max);
+  return `peak ${formatHour(peak)}-${formatHour((peak + 1) % 24)} · ${max}/day`;
+}
+
+/**
+ * Render the hours as a row of vertical bars
+ */
+function renderBars(hourly: number[], theme: Theme): string {
+  const barWidth = 12;
+  const barGap = 3;
+  const chartHeight = 100;
+  const leftMargin = 10;
+  const topMargin = 28;
+
+  const width = leftMargin * 2 + 24 * (barWidth + barGap) - barGap;
+  const height = topMargin + chartHeight + 22;
+  const max = Math.max(0, ...hourly);
+  const themed = theme.darkColors !== undefined;
+
+  let svg = `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">`;
+  if (theme.darkColors) {
+    svg += renderDarkModeStyle(theme.darkColors);
+  }
+  svg += `<text x="${leftMargin}" y="14" fill="${theme.textColor}"${classAttr('t', themed)} font-size="11" font-family="monospace" dominant-baseline="middle">${getPeakLabel(hourly)}</text>`;
+
+  hourly.forEach((value, hour) => {
+    const x = leftMargin + hour * (barWidth + barGap);
+    const barHeight = max > 0 ? round((value / max) * chartHeight) : 0;
+    const y = topMargin + chartHeight - barHeight;
+
+    svg += `<rect x="${x}" y="${topMargin}" width="${barWidth}" height="${chartHeight}" fill="${theme.cellBackground}"${classAttr('c0', themed)} rx="2"/>`;
+    if (barHeight > 0) {
+      const intensity = getRelativeIntensity(value, max);
+      svg += `<rect x="${x}" y="${y}" width="${barWidth}" height="${barHeight}" fill="${theme.getColor(intensity)}"${classAttr(`c${intensity}`, themed)} rx="2"/>`;
+    }
+
+    if (hour % 3 === 0) {
+      const labelY = topMargin + chartHeight + 12;
+      svg += `<text x="${x + barWidth / 2}" y="${labelY}" fill="${theme.textColor}"${classAttr('t', themed)} font-size="10" font-family="monospace" text-anchor="middle">${formatHour(hour)}</text>`;
+    }
+  });
+
+  svg += '</svg>';
+
+  return svg;
+}
+
+/**
+ * Render the hours as wedges around a 24-hour clock face, with midnight at
+ * the top
+ */
+function renderRadial(hourly: number[], theme: Theme): string {
+  const size = 240;
+  const center = size / 2;
+  const innerRadius = 30;
+  const outerRadius = 95;
+  const max = Math.max(0, ...hourly);
+  const themed = theme.darkColors !== undefined;
+
+  const point = (radius: number, angle: number) =>
+    `${round(center + radius * Math.cos(angle))} ${round(center + radius * Math.sin(angle))}`;
+
+  const wedge = (hour: number, radius: number, intensity: number) => {
+    // Leave a small gap between neighbouring wedges
+    const start = (hour / 24) * 2 * Math.PI - Math.PI / 2 + 0.01;
+    const end = ((hour + 1) / 24) * 2 * Math.PI - Math.PI / 2 - 0.01;
+
+    return `<path d="M ${point(innerRadius, start)} L ${point(radius, start)} A ${radius} ${radius} 0 0 1 ${point(radius, end)} L ${point(innerRadius, end)} A ${innerRadius} ${innerRadius} 0 0 0 ${point(innerRadius, start)} Z" fill="${theme.getColor(intensity)}"${classAttr(`c${intensity}`, themed)}/>`;
+  };
+
+  let svg = `<svg width="${size}" height="${size + 20}" xmlns="http://www.w3.org/2000/svg">`;
+  if (theme.darkColors) {
+    svg += renderDarkModeStyle(theme.darkColors);
+  }
+
+  hourly.forEach((value, hour) => {
+    svg += wedge(hour, outerRadius, 0);
+    if (value > 0 && max > 0) {
+      const radius = round(innerRadius + (value / max) * (outerRadius - innerRadius));
+      svg += wedge(hour, radius, getRelativeIntensity(value, max));
+    }
+  });
+
+  // Label the quarters of the day around the clock face
+  [0, 6, 12, 18].forEach(hour => {
+    const angle = (hour / 24) * 2 * Math.PI - Math.PI / 2;
+    const [x, y] = point(outerRadius + 12, angle).split(' ');
+    svg += `<text x="${x}" y="${y}" fill="${theme.textColor}"${classAttr('t', themed)} font-size="10" font-family="monospace" text-anchor="middle" dominant-baseline="middle">${formatHour(hour)}</text>`;
+  });
+
+  svg += `<text x="${center}" y="${size + 8}" fill="${theme.textColor}"${classAttr('t', themed)} font-size="11" font-family="monospace" text-anchor="middle" dominant-baseline="middle">${getPeakLabel(hourly)}</text>`;
+  svg += '</svg>';
+
+  return svg;
+}
+
+/**
+ * Generate an SVG chart of the average commands run in each hour of the day,
+ * as either a bar chart or a radial clock chart, labelled with the peak hour
+ */
+export function generateTimeOfDayChart(
+  stats: TimeOfDayStats,
+  options: TimeOfDayChartOptions = {}
+): string {
+  const {
+    style = 'bar',
+    baseColor = '#fb7185',
+    textColor = '#57606a',
+    cellBackground = '#ebedf0',
+    darkColors,
+  } = options;
+
+  const theme: Theme = {
+    textColor,
+    cellBackground,
+    getColor: createColorScale(baseColor, cellBackground),
+    darkColors,
+  };
+
+  return style === 'radial'
+    ? renderRadial(stats.hourly, theme)
+    : renderBars(stats.hourly, theme);
+}
@@ -1,6 +1,15 @@
 import {assert, assertEquals, assertExists} from '@std/assert';
 
-import {parsePeriod} from './utils.ts';
+import {
+  escapeXml,
+  fillEmptyBuckets,
+  findRepositoryRoot,
+  formatHour,
+  getPreviousPeriod,
+  parsePeriod,
+  resolvePath,
+  truncatePath,
+} from './utils.ts';
 
 Deno.test('parsePeriod with valid year format', () => {
   const result = parsePeriod('1y', 'UTC');
@@ -78,3 +87,134 @@ Deno.test('parsePeriod respects timezone', () => {
   assert(resultUTC.endDate !== null);
   assert(resultPST.endDate !== null);
 });
+
+Deno.test('fillEmptyBuckets zero-fills missing buckets', () => {
+  assertEquals(
+    fillEmptyBuckets(
+      [
+        {date: '2024-11-01', count: 3},
+        {date: '2025-02-01', count: 1},
+      ],
+      'month'
+    ),
+    [
+      {date: '2024-11-01', count: 3},
+      {date: '2024-12-01', count: 0},
+      {date: '2025-01-01', count: 0},
+      {date: '2025-02-01', count: 1},
+    ]
+  );
+
+  assertEquals(
+    fillEmptyBuckets(
+      [
+        {date: '2024-01-01T22:00:00', count: 2},
+        {date: '2024-01-02T00:00:00', count: 5},
+      ],
+      'hour'
+    ),
+    [
+      {date: '2024-01-01T22:00:00', count: 2},
+      {date: '2024-01-01T23:00:00', count: 0},
+      {date: '2024-01-02T00:00:00', count: 5},
+    ]
+  );
+});
+
+Deno.test('fillEmptyBuckets handles weekly and empty series', () => {
+  assertEquals(
+    fillEmptyBuckets(
+      [
+        {date: '2024-01-01', count: 1},
+        {date: '2024-01-15', count: 1},
+      ],
+      'week',
+      {weekStart: 'monday'}
+    ).map(d => d.date),
+    ['2024-01-01', '2024-01-08', '2024-01-15']
+  );
+  assertEquals(fillEmptyBuckets([], 'year'), []);
+});
+
+Deno.test('fillEmptyBuckets fills the full period', () => {
+  const data = [{date: '2024-01-03', count: 4}];
+
+  assertEquals(
+    fillEmptyBuckets(data, 'day', {startDate: '2024-01-01', endDate: '2024-01-04'}),
+    [
+      {date: '2024-01-01', count: 0},
+      {date: '2024-01-02', count: 0},
+      {date: '2024-01-03', count: 4},
+      {date: '2024-01-04', count: 0},
+    ]
+  );
+
+  // Weekly buckets are aligned to the week start (2024-01-03 is a Wednesday)
+  assertEquals(
+    fillEmptyBuckets([{date: '2023-12-31', count: 4}], 'week', {
+      startDate: '2024-01-03',
+      endDate: '2024-01-10',
+      weekStart: 'sunday',
+    }),
+    [
+      {date: '2023-12-31', count: 4},
+      {date: '2024-01-07', count: 0},
+    ]
+  );
+
+  assertEquals(
+    fillEmptyBuckets([], 'hour', {startDate: '2024-01-01', endDate: '2024-01-01'}).length,
+    24
+  );
+});
+
+Deno.test('getPreviousPeriod returns the preceding window of equal length', () => {
+  assertEquals(getPreviousPeriod('2024-03-01', '2024-03-31'), {
+    startDate: '2024-01-30',
+    endDate: '2024-02-29',
+  });
+  assertEquals(getPreviousPeriod('2024-01-01', '2024-01-01'), {
+    startDate: '2023-12-31',
+    endDate: '2023-12-31',
+  });
+});
+
+Deno.test('escapeXml escapes markup characters', () => {
+  assertEquals(
+    escapeXml(`echo "<b>" && echo 'x'`),
+    'echo &quot;&lt;b&gt;&quot; &amp;&amp; echo &#39;x&#39;'
+  );
+});
+
+Deno.test('formatHour formats 12-hour labels', () => {
+  assertEquals(formatHour(0), '12a');
+  assertEquals(formatHour(9), '9a');
+  assertEquals(formatHour(12), '12p');
+  assertEquals(formatHour(23), '11p');
+});
+
+Deno.test('truncatePath limits the number of segments', () => {
+  assertEquals(truncatePath('/home/user/project/src', 2), '/home/user');
+  assertEquals(truncatePath('/home/user', 3), '/home/user');
+  assertEquals(truncatePath('relative/path/here', 1), 'relative');
+});
+
+Deno.test('resolvePath resolves relative and absolute paths', () => {
+  assertEquals(resolvePath('/home/user', 'project'), '/home/user/project');
+  assertEquals(resolvePath('/home/user', './project/src/'), '/home/user/project/src');
+  assertEquals(resolvePath('/home/user/project', '../lib'), '/home/user/lib');
+  assertEquals(resolvePath('/home/user', '/tmp/build'), '/tmp/build');
+  assertEquals(resolvePath('/home', '../..'), '/');
+});
+
+Deno.test('findRepositoryRoot finds the deepest known root', () => {
+  const roots = new Set(['/home/user', '/home/user/code/project']);
+
+  assertEquals(
+    findRepositoryRoot('/home/user/code/project/src', roots),
+    '/home/user/code/project'
+  );
+  assertEquals(findRepositoryRoot('/home/user/code', roots), '/home/user');
+  assertEquals(findRepositoryRoot('/home/user', roots), '/home/user');
+  assertEquals(findRepositoryRoot('/tmp/build', roots), null);
+});
@@ -1,3 +1,26 @@
+import type {DailyCommandCount, HistoryGranularity} from './db.ts';
+
+/**
+ * Days of the week, in the order of their index (0 = Sunday)
+ */
+export const WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/**
+ * The day weeks start on when not requested otherwise, matching GitHub's
+ * contribution graph
+ */
+export const DEFAULT_WEEK_START: Weekday = 'sunday';
+
 /**
  * Parse period string (e.g., "1y", "6m", "30d") into start date
  * Returns the start date in YYYY-MM-DD format, with end date being today
@@ -43,3 +66,190 @@ export function parsePeriod(
     endDate: endDate.toString(),
   };
 }
+
+const BUCKET_STEPS: Record<HistoryGranularity, Temporal.DurationLike> = {
+  hour: {hours: 1},
+  day: {days: 1},
+  week: {weeks: 1},
+  month: {months: 1},
+  year: {years: 1},
+};
+
+export interface FillOptions {
+  /**
+   * Fill from the bucket containing this date, rather than the first bucket
+   */
+  startDate?: string;
+  /**
+   * Fill through the bucket containing this date, rather than the last bucket
+   */
+  endDate?: string;
+  /**
+   * The day weekly buckets start on (default: sunday)
+   */
+  weekStart?: Weekday;
+}
+
+/**
+ * Get the start of the bucket a date falls in, formatted as returned by
+ * `getCommandsPerDay`: a date, or a date and time for hourly buckets.
+ */
+function getBucketStart(
+  date: string,
+  granularity: HistoryGranularity,
+  weekStart: Weekday
+): string {
+  const plainDate = Temporal.PlainDate.from(date);
+
+  switch (granularity) {
+    case 'hour':
+      return `${plainDate.toString()}T00:00:00`;
+    case 'week': {
+      const offset = (plainDate.dayOfWeek - WEEKDAYS.indexOf(weekStart) + 7) % 7;
+      return plainDate.subtract({days: offset}).toString();
+    }
+    case 'month':
+      return plainDate.with({day: 1}).toString();
+    case 'year':
+      return plainDate.with({month: 1, day: 1}).toString();
+    default:
+      return plainDate.toString();
+  }
+}
+
+/**
+ * Zero-fill the empty buckets of a series. By default only the gaps between
+ * the first and last bucket are filled; a start and end date extend the
+ * series to cover the full period.
+ */
+export function fillEmptyBuckets(
+  data: DailyCommandCount[],
+  granularity: HistoryGranularity,
+  options: FillOptions = {}
+): DailyCommandCount[] {
+  const {weekStart = DEFAULT_WEEK_START} = options;
+
+  const first = options.startDate
+    ? getBucketStart(options.startDate, granularity, weekStart)
+    : data[0]?.date;
+
+  // The last hourly bucket of the end date is its final hour
+  const last = options.endDate
+    ? granularity === 'hour'
+      ? `${options.endDate}T23:00:00`
+      : getBucketStart(options.endDate, granularity, weekStart)
+    : data[data.length - 1]?.date;
+
+  if (first === undefined || last === undefined) {
+    return data;
+  }
+
+  const counts = new Map(data.map(d => [d.date, d.count]));
+  const step = BUCKET_STEPS[granularity];
+
+  // Hourly buckets include a time, every other bucket is a plain date
+  const format = (value: Temporal.PlainDateTime) =>
+    granularity === 'hour'
+      ? value.toString({smallestUnit: 'second'})
+      : value.toPlainDate().toString();
+
+  const filled: DailyCommandCount[] = [];
+  let current = Temporal.PlainDateTime.from(first);
+
+  while (format(current) <= last) {
+    const date = format(current);
+    filled.push({date, count: counts.get(date) ?? 0});
+    current = current.add(step);
+  }
+
+  return filled;
+}
+
+/**
+ * Escape text for use within SVG or HTML markup
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Format an hour of the day as a short 12-hour label (e.g. "12a", "3p")
+ */
+export function formatHour(hour: number): string {
+  return `${hour % 12 === 0 ? 12 : hour % 12}${hour < 12 ? 'a' : 'p'}`;
+}
+
+/**
+ * Get the window of equal length immediately preceding a date range
+ */
+export function getPreviousPeriod(
+  startDate: string,
+  endDate: string
+): {startDate: string; endDate: string} {
+  const start = Temporal.PlainDate.from(startDate);
+  const days = start.until(endDate).days + 1;
+
+  return {
+    startDate: start.subtract({days}).toString(),
+    endDate: start.subtract({days: 1}).toString(),
+  };
+}
+
+/**
+ * Truncate a path to at most `depth` segments
+ * e.g. "/home/user/project/src" at depth 2 becomes "/home/user"
+ */
+export function truncatePath(path: string, depth: number): string {
+  const segments = path.split('/').filter(segment => segment !== '');
+  if (segments.length <= depth) {
+    return path;
+  }
+
+  const truncated = segments.slice(0, depth).join('/');
+  return path.startsWith('/') ? `/${truncated}` : truncated;
+}
+
+/**
+ * Resolve a path against an absolute directory, normalizing `.` and `..`
+ * segments e.g. "../lib" from "/home/user/project" becomes "/home/user/lib"
+ */
+export function resolvePath(directory: string, path: string): string {
+  const segments = path.startsWith('/') ? [] : directory.split('/');
+
+  for (const segment of path.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '' && segment !== '.') {
+      segments.push(segment);
+    }
+  }
+
+  return `/${segments.filter(segment => segment !== '').join('/')}`;
+}
+
+/**
+ * Find the repository root a path is within, given the set of known
+ * repository roots. Nested repositories resolve to the deepest root.
+ */
+export function findRepositoryRoot(path: string, roots: Set<string>): string | null {
+  let current = path;
+
+  while (current !== '') {
+    if (roots.has(current)) {
+      return current;
+    }
+
+    const parentIndex = current.lastIndexOf('/');
+    if (parentIndex === -1 || current === '/') {
+      break;
+    }
+    current = parentIndex === 0 ? '/' : current.slice(0, parentIndex);
+  }
+
+  return null;
+}
@@ -0,0 +1,119 @@
+import {assert, assertEquals} from '@std/assert';
+
+import {buildWrappedSummary, generateWrappedCard, type WrappedData} from './wrapped.ts';
+
+const hourly = new Array(24).fill(0);
+hourly[10] = 12.5;
+hourly[22] = 3;
+
+const data: WrappedData = {
+  daily: [
+    {date: '2025-03-01', count: 40},
+    {date: '2025-03-02', count: 90},
+    {date: '2025-03-03', count: 10},
+    {date: '2025-06-10', count: 60},
+  ],
+  timeOfDay: {hourly},
+  topCommands: [
+    {command: 'git status', count: 80},
+    {command: 'cat <config> && echo "done"', count: 20},
+  ],
+  topDirectories: [{directory: '/home/user/project', count: 150}],
+};
+
+Deno.test('buildWrappedSummary summarizes the year', () => {
+  const summary = buildWrappedSummary(2025, data, '2026-01-15');
+
+  assertEquals(summary.year, 2025);
+  assertEquals(summary.total, 200);
+  assertEquals(summary.activeDays, 4);
+  assertEquals(summary.busiestDay, {date: '2025-03-02', count: 90});
+  assertEquals(summary.longestStreak, {
+    days: 3,
+    startDate: '2025-03-01',
+    endDate: '2025-03-03',
+  });
+  assertEquals(summary.favoriteHour, 10);
+  assertEquals(summary.topCommands, data.topCommands);
+  assertEquals(summary.topDirectories, data.topDirectories);
+});
+
+Deno.test('buildWrappedSummary handles a year without commands', () => {
+  const summary = buildWrappedSummary(
+    2026,
+    {
+      daily: [],
+      timeOfDay: {hourly: new Array(24).fill(0)},
+      topCommands: [],
+      topDirectories: [],
+    },
+    '2026-01-15'
+  );
+
+  assertEquals(summary.total, 0);
+  assertEquals(summary.busiestDay, null);
+  assertEquals(summary.longestStreak, null);
+  assertEquals(summary.favoriteHour, null);
+
+  const svg = generateWrappedCard(summary);
+  assert(svg.includes('2026 wrapped'));
+  assert(svg.includes('>none<'));
+});
+
+Deno.test('generateWrappedCard renders the summary', () => {
+  const svg = generateWrappedCard(buildWrappedSummary(2025, data, '2026-01-15'));
+
+  assert(svg.startsWith('<svg'));
+  assert(svg.endsWith('</svg>'));
+  assert(svg.includes('2025 wrapped'));
+  assert(svg.includes('>200<'));
+  assert(svg.includes('Mar 2 (90)'));
+  assert(svg.includes('3 days'));
+  assert(svg.includes('10a-11a'));
+  assert(svg.includes('/home/user/project'));
+});
+
+Deno.test('generateWrappedCard escapes commands', () => {
+  const svg = generateWrappedCard(buildWrappedSummary(2025, data, '2026-01-15'));
+
+  assert(svg.includes('cat &lt;config&gt; &amp;&amp; echo &quot;done&quot;'));
+  assert(!svg.includes('<config>'));
+});
+
+Deno.test('generateWrappedCard respects color options', () => {
+  const svg = generateWrappedCard(buildWrappedSummary(2025, data, '2026-01-15'), {
+    baseColor: '#00ff00',
+    textColor: '#ffffff',
+  });
+
+  assert(svg.includes('fill="#00ff00"'));
+  assert(svg.includes('fill="#ffffff"'));
+});
+
+Deno.test('generateWrappedCard switches to dark colors with a media query', () => {
+  const summary = buildWrappedSummary(2025, data, '2026-01-15');
+  const svg = generateWrappedCard(summary, {
+    darkColors: {baseColor: '#39d353', textColor: '#c9d1d9', cellBackground: '#161b22'},
+  });
+
+  assert(svg.includes('<style>@media (prefers-color-scheme: dark){'));
+  assert(svg.includes('.a{fill:#39d353}'));
+  assert(svg.includes('.e{stroke:#161b22}'));
+  assert(svg.includes('fill="#fb7185" class="a"'));
+  assert(svg.includes('fill="#57606a" class="t"'));
+  assert(svg.includes('stroke="#ebedf0" class="e"'));
+  assert(!generateWrappedCard(summary).includes('class='));
+});
+
+Deno.test('generateWrappedCard formats numbers in English', () => {
+  const svg = generateWrappedCard(
+    buildWrappedSummary(
+      2025,
+      {...data, daily: [{date: '2025-03-01', count: 12345}]},
+      '2026-01-15'
+    )
+  );
+
+  assert(svg.includes('>12,345<'));
+  assert(svg.includes('Mar 1 (12,345)'));
+});
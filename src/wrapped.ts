@@ -0,0 +1,232 @@
+import type {
+  CommandCount,
+  DailyCommandCount,
+  DirectoryCount,
+  TimeOfDayStats,
+} from './db.ts';
+import {calculateStreaks, type Streak} from './stats.ts';
+import {
+  classAttr,
+  createColorScale,
+  renderDarkModeStyle,
+  type SvgStyleOptions,
+} from './svg.ts';
+import {escapeXml, formatHour} from './utils.ts';
+
+export interface WrappedSummary {
+  year: number;
+  total: number;
+  activeDays: number;
+  busiestDay: DailyCommandCount | null;
+  longestStreak: Streak | null;
+  /**
+   * The hour of the day (0-23) with the most commands on average, or null
+   * when no commands were run
+   */
+  favoriteHour: number | null;
+  topCommands: CommandCount[];
+  topDirectories: DirectoryCount[];
+}
+
+export interface WrappedData {
+  daily: DailyCommandCount[];
+  timeOfDay: TimeOfDayStats;
+  topCommands: CommandCount[];
+  topDirectories: DirectoryCount[];
+}
+
+export type WrappedCardOptions = Pick<
+  SvgStyleOptions,
+  'baseColor' | 'textColor' | 'cellBackground' | 'darkColors'
+>;
+
+const CARD_WIDTH = 420;
+const PADDING = 24;
+
+/**
+ * Longest command or directory shown on the card before it is truncated
+ */
+const MAX_LABEL_LENGTH = 34;
+
+/**
+ * Summarize a year of commands. Streaks are only counted up to `today` when
+ * the year is still in progress.
+ */
+export function buildWrappedSummary(
+  year: number,
+  data: WrappedData,
+  today: string
+): WrappedSummary {
+  const yearEnd = `${year}-12-31`;
+  const streaks = calculateStreaks(data.daily, {
+    startDate: `${year}-01-01`,
+    endDate: today < yearEnd ? today : yearEnd,
+  });
+
+  const hourly = data.timeOfDay.hourly;
+  const peak = Math.max(0, ...hourly);
+
+  return {
+    year,
+    total: data.daily.reduce((sum, d) => sum + d.count, 0),
+    activeDays: streaks.activeDays,
+    busiestDay: streaks.busiestDay,
+    longestStreak: streaks.longestStreak,
+    favoriteHour: peak > 0 ? hourly.indexOf(peak) : null,
+    topCommands: data.topCommands,
+    topDirectories: data.topDirectories,
+  };
+}
+
+/**
+ * Shorten a label which would overflow the card
+ */
+function truncateLabel(label: string): string {
+  return label.length > MAX_LABEL_LENGTH
+    ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…`
+    : label;
+}
+
+/**
+ * Format a date as a short month and day (e.g. "Mar 2")
+ */
+function formatDate(date: string): string {
+  return Temporal.PlainDate.from(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+/**
+ * Render a ranked list with a bar behind each entry sized relative to the
+ * first entry
+ */
+function renderRankedList(
+  title: string,
+  entries: Array<{label: string; count: number}>,
+  y: number,
+  textColor: string,
+  getColor: (intensity: number) => string,
+  themed: boolean
+): {svg: string; height: number} {
+  const rowHeight = 22;
+  const barWidth = CARD_WIDTH - PADDING * 2;
+  const max = entries[0]?.count ?? 0;
+
+  const textClass = classAttr('t', themed);
+
+  let svg = `<text x="${PADDING}" y="${y}" fill="${textColor}"${textClass} font-size="11" font-family="monospace" letter-spacing="1">${title}</text>`;
+
+  if (entries.length === 0) {
+    svg += `<text x="${PADDING}" y="${y + rowHeight}" fill="${textColor}"${textClass} font-size="12" font-family="monospace">none</text>`;
+    return {svg, height: rowHeight * 2};
+  }
+
+  entries.forEach((entry, i) => {
+    const rowY = y + 10 + i * rowHeight;
+    const width = max > 0 ? Math.max(4, Math.round((entry.count / max) * barWidth)) : 0;
+
+    const intensity = Math.max(1, 5 - i);
+
+    svg += `<rect x="${PADDING}" y="${rowY}" width="${width}" height="${rowHeight - 4}" fill="${getColor(intensity)}"${classAttr(`c${intensity}`, themed)} rx="2"/>`;
+    svg += `<text x="${PADDING + 6}" y="${rowY + (rowHeight - 4) / 2}" fill="${textColor}"${textClass} font-size="12" font-family="monospace" dominant-baseline="middle">${escapeXml(truncateLabel(entry.label))}</text>`;
+    svg += `<text x="${CARD_WIDTH - PADDING - 6}" y="${rowY + (rowHeight - 4) / 2}" fill="${textColor}"${textClass} font-size="12" font-family="monospace" dominant-baseline="middle" text-anchor="end">${entry.count.toLocaleString('en-US')}</text>`;
+  });
+
+  return {svg, height: 10 + entries.length * rowHeight + 12};
+}
+
+/**
+ * Generate a poster style SVG card of a year in review summary
+ */
+export function generateWrappedCard(
+  summary: WrappedSummary,
+  options: WrappedCardOptions = {}
+): string {
+  const {
+    baseColor = '#fb7185',
+    textColor = '#57606a',
+    cellBackground = '#ebedf0',
+    darkColors,
+  } = options;
+
+  const getColor = createColorScale(baseColor, cellBackground);
+  const themed = darkColors !== undefined;
+  const textClass = classAttr('t', themed);
+  const accentClass = classAttr('a', themed);
+
+  let body = '';
+  let y = PADDING + 16;
+
+  // Title and headline total
+  body += `<text x="${PADDING}" y="${y}" fill="${baseColor}"${accentClass} font-size="20" font-weight="bold" font-family="monospace">${summary.year} wrapped</text>`;
+  y += 52;
+  body += `<text x="${PADDING}" y="${y}" fill="${getColor(9)}"${classAttr('c9', themed)} font-size="40" font-weight="bold" font-family="monospace">${summary.total.toLocaleString('en-US')}</text>`;
+  y += 20;
+  body += `<text x="${PADDING}" y="${y}" fill="${textColor}"${textClass} font-size="12" font-family="monospace">commands over ${summary.activeDays} active days</text>`;
+  y += 34;
+
+  // Highlights, two per row
+  const highlights = [
+    {
+      label: 'BUSIEST DAY',
+      value: summary.busiestDay
+        ? `${formatDate(summary.busiestDay.date)} (${summary.busiestDay.count.toLocaleString('en-US')})`
+        : '-',
+    },
+    {
+      label: 'LONGEST STREAK',
+      value: summary.longestStreak ? `${summary.longestStreak.days} days` : '-',
+    },
+    {
+      label: 'FAVORITE HOUR',
+      value:
+        summary.favoriteHour !== null
+          ? `${formatHour(summary.favoriteHour)}-${formatHour((summary.favoriteHour + 1) % 24)}`
+          : '-',
+    },
+  ];
+
+  const columnWidth = (CARD_WIDTH - PADDING * 2) / 2;
+  highlights.forEach((highlight, i) => {
+    const x = PADDING + (i % 2) * columnWidth;
+    const rowY = y + Math.floor(i / 2) * 44;
+    body += `<text x="${x}" y="${rowY}" fill="${textColor}"${textClass} font-size="10" font-family="monospace" letter-spacing="1">${highlight.label}</text>`;
+    body += `<text x="${x}" y="${rowY + 18}" fill="${baseColor}"${accentClass} font-size="15" font-weight="bold" font-family="monospace">${highlight.value}</text>`;
+  });
+  y += Math.ceil(highlights.length / 2) * 44 + 16;
+
+  const commands = renderRankedList(
+    'TOP COMMANDS',
+    summary.topCommands.map(c => ({label: c.command, count: c.count})),
+    y,
+    textColor,
+    getColor,
+    themed
+  );
+  body += commands.svg;
+  y += commands.height + 10;
+
+  const directories = renderRankedList(
+    'TOP DIRECTORIES',
+    summary.topDirectories.map(d => ({label: d.directory, count: d.count})),
+    y,
+    textColor,
+    getColor,
+    themed
+  );
+  body += directories.svg;
+  y += directories.height;
+
+  const height = y + PADDING - 12;
+
+  let svg = `<svg width="${CARD_WIDTH}" height="${height}" xmlns="http://www.w3.org/2000/svg">`;
+  if (darkColors) {
+    svg += renderDarkModeStyle(darkColors);
+  }
+  svg += `<rect x="0.5" y="0.5" width="${CARD_WIDTH - 1}" height="${height - 1}" fill="none" stroke="${cellBackground}"${classAttr('e', themed)} rx="8"/>`;
+  svg += body;
+  svg += '</svg>';
+
+  return svg;
+}
@@ -1,6 +1,14 @@
 -- Schema for Atuin history and store tables
 -- Based on Atuin's database structure
 
+-- Users of the Atuin server
+CREATE TABLE IF NOT EXISTS users (
+    id UUID PRIMARY KEY,
+    username VARCHAR(32) NOT NULL UNIQUE,
+    email VARCHAR(128) NOT NULL,
+    password VARCHAR(128) NOT NULL
+);
+
 -- Legacy history table
 CREATE TABLE IF NOT EXISTS history (
     id UUID PRIMARY KEY,
@@ -24,10 +32,12 @@ CREATE TABLE IF NOT EXISTS store (
     id UUID PRIMARY KEY,
     client_id UUID NOT NULL,
     host_id UUID NOT NULL,
+    user_id UUID NOT NULL,
     tag VARCHAR(255) NOT NULL,
     timestamp BIGINT NOT NULL,
     version VARCHAR(255) NOT NULL,
     data BYTEA NOT NULL,
+    cek TEXT NOT NULL DEFAULT '',
     crc BIGINT NOT NULL,
     idx BIGINT NOT NULL,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
@@ -36,3 +46,4 @@ CREATE TABLE IF NOT EXISTS store (
 CREATE INDEX IF NOT EXISTS idx_store_tag ON store(tag);
 CREATE INDEX IF NOT EXISTS idx_store_timestamp ON store(timestamp);
 CREATE INDEX IF NOT EXISTS idx_store_host_id ON store(host_id);
+CREATE INDEX IF NOT EXISTS idx_store_user_id ON store(user_id);
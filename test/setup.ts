@@ -39,9 +39,25 @@ export async function cleanupTestDatabase(): Promise<void> {
   try {
     await client.queryArray('TRUNCATE TABLE history CASCADE');
     await client.queryArray('TRUNCATE TABLE store CASCADE');
+    await client.queryArray('TRUNCATE TABLE users CASCADE');
     console.log('✓ Test database cleaned up');
   } finally {
     client.release();
     await pool.end();
   }
 }
+
+/**
+ * Execute a query against the test database
+ */
+export async function executeTestQuery(query: string): Promise<void> {
+  const pool = new Pool(TEST_DATABASE_URL, 1, true);
+  const client = await pool.connect();
+
+  try {
+    await client.queryArray(query);
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}